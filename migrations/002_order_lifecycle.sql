@@ -0,0 +1,5 @@
+-- migrations/002_order_lifecycle.sql
+-- Timestamps stamped by the order lifecycle state machine
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS paid_at TIMESTAMP;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS shipped_at TIMESTAMP;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS delivered_at TIMESTAMP;
@@ -0,0 +1,4 @@
+-- migrations/004_order_shipping.sql
+-- Shipping destination and method captured at order creation
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS shipping_address JSONB;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS shipping_method VARCHAR(20) DEFAULT 'STANDARD';
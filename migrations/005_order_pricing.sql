@@ -0,0 +1,7 @@
+-- migrations/005_order_pricing.sql
+-- Itemised price breakdown produced by the pricing pipeline
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS subtotal INTEGER;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS discount_amount INTEGER DEFAULT 0;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS shipping_amount INTEGER DEFAULT 0;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS tax_rate NUMERIC(5,4) DEFAULT 0;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS tax_amount INTEGER DEFAULT 0;
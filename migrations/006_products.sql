@@ -0,0 +1,15 @@
+-- migrations/006_products.sql
+-- Product catalog: the price authority for order items
+CREATE TABLE IF NOT EXISTS products (
+    id SERIAL PRIMARY KEY,
+    sku VARCHAR(64) UNIQUE NOT NULL,
+    name VARCHAR(200) NOT NULL,
+    description TEXT,
+    unit_price INTEGER NOT NULL CHECK (unit_price >= 0),
+    active BOOLEAN NOT NULL DEFAULT TRUE,
+    variants JSONB NOT NULL DEFAULT '[]',
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_products_active ON products(active);
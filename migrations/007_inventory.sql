@@ -0,0 +1,33 @@
+-- migrations/007_inventory.sql
+-- Per-SKU stock levels. SKUs without a row here are not stock-tracked.
+CREATE TABLE IF NOT EXISTS inventory (
+    sku VARCHAR(64) PRIMARY KEY REFERENCES products(sku),
+    on_hand INTEGER NOT NULL DEFAULT 0,
+    reserved INTEGER NOT NULL DEFAULT 0,
+    updated_at TIMESTAMP DEFAULT NOW(),
+    CONSTRAINT inventory_reserved_non_negative CHECK (reserved >= 0),
+    CONSTRAINT inventory_reserved_within_on_hand CHECK (reserved <= on_hand)
+);
+
+-- Stock held for an order: RESERVED -> COMMITTED (paid) | RELEASED (cancelled) | EXPIRED (payment expired)
+CREATE TABLE IF NOT EXISTS inventory_reservations (
+    id SERIAL PRIMARY KEY,
+    order_id INTEGER NOT NULL REFERENCES orders(id),
+    sku VARCHAR(64) NOT NULL REFERENCES inventory(sku),
+    quantity INTEGER NOT NULL CHECK (quantity > 0),
+    status VARCHAR(20) NOT NULL DEFAULT 'RESERVED',
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_reservations_order ON inventory_reservations(order_id, status);
+
+-- Manual stock adjustments made by admins
+CREATE TABLE IF NOT EXISTS inventory_adjustments (
+    id SERIAL PRIMARY KEY,
+    sku VARCHAR(64) NOT NULL REFERENCES inventory(sku),
+    delta INTEGER NOT NULL,
+    reason TEXT,
+    actor_id VARCHAR(255),
+    created_at TIMESTAMP DEFAULT NOW()
+);
@@ -0,0 +1,13 @@
+-- migrations/008_order_numbers.sql
+-- Human-readable order numbers (e.g. ORD-2026-000123). Sequence values are never
+-- reused, so concurrent inserts may leave gaps but never collide.
+CREATE SEQUENCE IF NOT EXISTS order_number_seq;
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS order_number VARCHAR(40);
+
+UPDATE orders
+SET order_number = 'ORD-' || to_char(created_at, 'YYYY') || '-' || lpad(seq.n::text, GREATEST(6, length(seq.n::text)), '0')
+FROM (SELECT id, nextval('order_number_seq') AS n FROM orders WHERE order_number IS NULL ORDER BY id) seq
+WHERE orders.id = seq.id;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_orders_order_number ON orders(order_number);
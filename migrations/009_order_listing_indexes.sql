@@ -0,0 +1,5 @@
+-- migrations/009_order_listing_indexes.sql
+-- Support the order listing filters (date range, amount range, latest payment status)
+CREATE INDEX IF NOT EXISTS idx_orders_created_at ON orders(created_at);
+CREATE INDEX IF NOT EXISTS idx_orders_total_amount ON orders(total_amount);
+CREATE INDEX IF NOT EXISTS idx_payments_order_id_created_at ON payments(order_id, created_at DESC);
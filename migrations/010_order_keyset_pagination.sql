@@ -0,0 +1,4 @@
+-- migrations/010_order_keyset_pagination.sql
+-- Keyset pagination walks orders by (created_at, id); id breaks ties between equal timestamps
+CREATE INDEX IF NOT EXISTS idx_orders_created_at_id ON orders(created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_orders_user_id_created_at_id ON orders(user_id, created_at DESC, id DESC);
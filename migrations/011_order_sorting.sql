@@ -0,0 +1,13 @@
+-- migrations/011_order_sorting.sql
+-- Sortable columns must be non-null for keyset cursors to compare them
+UPDATE orders SET status = 'PENDING' WHERE status IS NULL;
+UPDATE orders SET created_at = NOW() WHERE created_at IS NULL;
+UPDATE orders SET updated_at = created_at WHERE updated_at IS NULL;
+ALTER TABLE orders ALTER COLUMN status SET NOT NULL;
+ALTER TABLE orders ALTER COLUMN created_at SET NOT NULL;
+ALTER TABLE orders ALTER COLUMN updated_at SET NOT NULL;
+ALTER TABLE orders ALTER COLUMN order_number SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_orders_updated_at_id ON orders(updated_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_orders_total_amount_id ON orders(total_amount DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_orders_status_created_at_id ON orders(status, created_at DESC, id DESC);
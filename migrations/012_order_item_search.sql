@@ -0,0 +1,24 @@
+-- migrations/012_order_item_search.sql
+-- Indexed search over orders.items (replaces items::text ILIKE)
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- '|SKU-1|SKU-2|': a prefix search is LIKE '%|<prefix>%'
+CREATE OR REPLACE FUNCTION order_item_skus(items jsonb) RETURNS text
+LANGUAGE sql IMMUTABLE PARALLEL SAFE AS $$
+  SELECT COALESCE('|' || string_agg(item->>'sku', '|') || '|', '')
+  FROM jsonb_array_elements(items) AS item
+$$;
+
+CREATE OR REPLACE FUNCTION order_item_names(items jsonb) RETURNS text
+LANGUAGE sql IMMUTABLE PARALLEL SAFE AS $$
+  SELECT COALESCE(string_agg(item->>'productName', ' | '), '')
+  FROM jsonb_array_elements(items) AS item
+$$;
+
+-- Exact SKU: items @> '[{"sku": "..."}]'
+CREATE INDEX IF NOT EXISTS idx_orders_items_path ON orders USING GIN (items jsonb_path_ops);
+-- SKU prefix and product name (case-insensitive)
+CREATE INDEX IF NOT EXISTS idx_orders_item_skus_trgm ON orders USING GIN (order_item_skus(items) gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_orders_item_names_trgm ON orders USING GIN (order_item_names(items) gin_trgm_ops);
+-- Order number prefix
+CREATE INDEX IF NOT EXISTS idx_orders_order_number_pattern ON orders(order_number text_pattern_ops);
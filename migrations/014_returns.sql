@@ -0,0 +1,50 @@
+-- migrations/014_returns.sql
+-- Return requests (RMA): REQUESTED -> APPROVED | REJECTED, APPROVED -> RECEIVED -> REFUNDED
+CREATE TABLE IF NOT EXISTS returns (
+    id SERIAL PRIMARY KEY,
+    rma_number VARCHAR(40) NOT NULL UNIQUE,
+    order_id INTEGER NOT NULL REFERENCES orders(id),
+    user_id INTEGER NOT NULL REFERENCES users(id),
+    status VARCHAR(20) NOT NULL DEFAULT 'REQUESTED',
+    reason TEXT NOT NULL,
+    items JSONB NOT NULL,
+    refund_amount INTEGER NOT NULL,
+    refund_reference VARCHAR(100),
+    version INTEGER NOT NULL DEFAULT 1,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+    approved_at TIMESTAMP,
+    received_at TIMESTAMP,
+    refunded_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_returns_order_id ON returns(order_id);
+CREATE INDEX IF NOT EXISTS idx_returns_status ON returns(status, created_at);
+
+-- Audit trail of every return step
+CREATE TABLE IF NOT EXISTS return_events (
+    id SERIAL PRIMARY KEY,
+    return_id INTEGER NOT NULL REFERENCES returns(id),
+    from_status VARCHAR(20),
+    to_status VARCHAR(20) NOT NULL,
+    actor_type VARCHAR(20) NOT NULL,
+    actor_id VARCHAR(255),
+    note TEXT,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_return_events_return_id ON return_events(return_id, created_at);
+
+-- Refunds issued against a payment; the payment becomes PARTIALLY_REFUNDED or REFUNDED
+CREATE TABLE IF NOT EXISTS payment_refunds (
+    id SERIAL PRIMARY KEY,
+    refund_id VARCHAR(100) NOT NULL UNIQUE,
+    payment_id VARCHAR(255) NOT NULL,
+    order_id INTEGER NOT NULL REFERENCES orders(id),
+    return_id INTEGER REFERENCES returns(id),
+    amount INTEGER NOT NULL CHECK (amount > 0),
+    status VARCHAR(20) NOT NULL DEFAULT 'SUCCESS',
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_refunds_payment_id ON payment_refunds(payment_id);
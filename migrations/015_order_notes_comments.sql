@@ -0,0 +1,15 @@
+-- migrations/015_order_notes_comments.sql
+-- Customer note supplied at checkout
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS notes TEXT;
+
+-- Internal staff comment thread; only exposed to ADMIN/SUPER_ADMIN
+CREATE TABLE IF NOT EXISTS order_comments (
+    id SERIAL PRIMARY KEY,
+    order_id INTEGER NOT NULL REFERENCES orders(id),
+    author_id INTEGER NOT NULL REFERENCES users(id),
+    author_role VARCHAR(20) NOT NULL,
+    body TEXT NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_comments_order_id ON order_comments(order_id, created_at);
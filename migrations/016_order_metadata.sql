@@ -0,0 +1,6 @@
+-- migrations/016_order_metadata.sql
+-- Integration metadata (channel, campaign, external ids) on orders
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS metadata JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- Filtering: metadata @> '{"channel": "pos"}'
+CREATE INDEX IF NOT EXISTS idx_orders_metadata_path ON orders USING GIN (metadata jsonb_path_ops);
@@ -0,0 +1,10 @@
+-- migrations/017_order_currency.sql
+-- Currency is a property of the order (ISO 4217); existing orders were all taken in Kenyan shillings
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS currency CHAR(3) NOT NULL DEFAULT 'KES'
+    CONSTRAINT orders_currency_format CHECK (currency ~ '^[A-Z]{3}$');
+
+-- Payments used the non-standard code KSHS before currency followed the order
+UPDATE payments SET currency = 'KES' WHERE currency = 'KSHS';
+
+-- Per-currency listing and analytics
+CREATE INDEX IF NOT EXISTS idx_orders_currency_created_at ON orders(currency, created_at);
@@ -0,0 +1,74 @@
+-- migrations/018_money_minor_units.sql
+-- Amounts move from whole currency units to integer minor units (cents) in BIGINT columns.
+-- Catalog prices (products.unit_price) stay in major units; they are converted when priced onto an order.
+
+-- ISO 4217 minor unit digits; must match MINOR_UNIT_EXCEPTIONS in src/models/Money.ts
+CREATE OR REPLACE FUNCTION currency_minor_digits(code text) RETURNS integer
+LANGUAGE sql IMMUTABLE PARALLEL SAFE AS $$
+  SELECT CASE
+    WHEN code IN ('AFN', 'ALL', 'BIF', 'CLP', 'DJF', 'GNF', 'IQD', 'IRR', 'ISK', 'JPY', 'KMF', 'KPW', 'KRW', 'LAK', 'LBP',
+                  'MGA', 'MMK', 'PYG', 'RSD', 'RWF', 'SLL', 'SOS', 'SYP', 'UGX', 'VND', 'VUV', 'XAF', 'XOF', 'XPF', 'YER') THEN 0
+    WHEN code IN ('BHD', 'JOD', 'KWD', 'LYD', 'OMR', 'TND') THEN 3
+    ELSE 2
+  END
+$$;
+
+-- Returns carry the currency of their order
+ALTER TABLE returns ADD COLUMN IF NOT EXISTS currency CHAR(3);
+UPDATE returns r SET currency = o.currency FROM orders o WHERE o.id = r.order_id AND r.currency IS NULL;
+ALTER TABLE returns ALTER COLUMN currency SET NOT NULL;
+
+-- Convert exactly once: orders.total_amount is still INTEGER until this block has run
+DO $$
+BEGIN
+  IF (SELECT data_type FROM information_schema.columns
+      WHERE table_name = 'orders' AND column_name = 'total_amount') <> 'integer' THEN
+    RETURN;
+  END IF;
+
+  -- Line item prices inside orders.items
+  UPDATE orders o
+  SET items = (
+    SELECT COALESCE(jsonb_agg(
+      entry.item
+        || jsonb_build_object('price', (entry.item->>'price')::numeric * (10 ^ currency_minor_digits(o.currency))::bigint)
+        || CASE WHEN entry.item ? 'totalPrice'
+             THEN jsonb_build_object('totalPrice', (entry.item->>'totalPrice')::numeric * (10 ^ currency_minor_digits(o.currency))::bigint)
+             ELSE '{}'::jsonb
+           END
+      ORDER BY entry.position
+    ), '[]'::jsonb)
+    FROM jsonb_array_elements(o.items) WITH ORDINALITY AS entry(item, position)
+  );
+
+  ALTER TABLE orders
+    ALTER COLUMN total_amount TYPE BIGINT USING total_amount * (10 ^ currency_minor_digits(currency))::bigint,
+    ALTER COLUMN subtotal TYPE BIGINT USING subtotal * (10 ^ currency_minor_digits(currency))::bigint,
+    ALTER COLUMN discount_amount TYPE BIGINT USING discount_amount * (10 ^ currency_minor_digits(currency))::bigint,
+    ALTER COLUMN shipping_amount TYPE BIGINT USING shipping_amount * (10 ^ currency_minor_digits(currency))::bigint,
+    ALTER COLUMN tax_amount TYPE BIGINT USING tax_amount * (10 ^ currency_minor_digits(currency))::bigint;
+
+  -- Payments were stored as decimal(10,2) major units
+  ALTER TABLE payments
+    ALTER COLUMN amount TYPE BIGINT USING round(amount * (10 ^ currency_minor_digits(currency))::numeric)::bigint;
+
+  ALTER TABLE returns
+    ALTER COLUMN refund_amount TYPE BIGINT USING refund_amount * (10 ^ currency_minor_digits(currency))::bigint;
+
+  UPDATE returns r
+  SET items = (
+    SELECT COALESCE(jsonb_agg(
+      entry.item || jsonb_build_object('unitPrice', (entry.item->>'unitPrice')::numeric * (10 ^ currency_minor_digits(r.currency))::bigint)
+      ORDER BY entry.position
+    ), '[]'::jsonb)
+    FROM jsonb_array_elements(r.items) WITH ORDINALITY AS entry(item, position)
+  );
+
+  -- Refunds have no currency of their own: scale by their order's
+  ALTER TABLE payment_refunds ALTER COLUMN amount TYPE BIGINT;
+  UPDATE payment_refunds pr
+  SET amount = pr.amount * (10 ^ currency_minor_digits(o.currency))::bigint
+  FROM orders o
+  WHERE o.id = pr.order_id;
+END
+$$;
@@ -0,0 +1,42 @@
+-- migrations/019_invoices.sql
+-- Invoices (issued on payment) and credit notes (issued on refund)
+
+-- Gap-free numbering: the counter row is bumped in the same statement that inserts the document,
+-- so a failed insert rolls the number back with it
+CREATE TABLE IF NOT EXISTS invoice_number_series (
+    series VARCHAR(20) PRIMARY KEY,  -- prefix and year, e.g. INV-2026
+    last_number INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS invoices (
+    id SERIAL PRIMARY KEY,
+    number VARCHAR(40) NOT NULL UNIQUE,
+    type VARCHAR(20) NOT NULL,
+    order_id INTEGER NOT NULL REFERENCES orders(id),
+    credited_invoice_id INTEGER REFERENCES invoices(id),
+    return_id INTEGER REFERENCES returns(id),
+    payment_id VARCHAR(255) NOT NULL,
+    refund_id VARCHAR(100),
+    currency CHAR(3) NOT NULL,
+    total_amount BIGINT NOT NULL,
+    document JSONB NOT NULL,  -- full snapshot as issued
+    issued_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- One invoice per order and one credit note per refund
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_one_per_order ON invoices(order_id) WHERE type = 'INVOICE';
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_one_per_refund ON invoices(refund_id) WHERE type = 'CREDIT_NOTE';
+CREATE INDEX IF NOT EXISTS idx_invoices_order_id ON invoices(order_id, issued_at);
+
+-- Issued documents are never changed or removed; corrections are made with credit notes
+CREATE OR REPLACE FUNCTION invoices_immutable() RETURNS trigger
+LANGUAGE plpgsql AS $$
+BEGIN
+  RAISE EXCEPTION 'Issued invoices are immutable';
+END
+$$;
+
+DROP TRIGGER IF EXISTS invoices_immutable ON invoices;
+CREATE TRIGGER invoices_immutable
+  BEFORE UPDATE OR DELETE ON invoices
+  FOR EACH ROW EXECUTE FUNCTION invoices_immutable();
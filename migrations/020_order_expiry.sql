@@ -0,0 +1,3 @@
+-- migrations/020_order_expiry.sql
+-- Lets the unpaid-order expiry sweep find overdue PENDING/CONFIRMED orders without scanning the table
+CREATE INDEX IF NOT EXISTS idx_orders_unpaid_created_at ON orders(created_at) WHERE status IN ('PENDING', 'CONFIRMED');
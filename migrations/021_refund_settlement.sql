@@ -0,0 +1,10 @@
+-- migrations/021_refund_settlement.sql
+-- Refunds are recorded PENDING before the provider is asked and settled from its answer
+ALTER TABLE payment_refunds ALTER COLUMN status SET DEFAULT 'PENDING';
+ALTER TABLE payment_refunds ADD COLUMN IF NOT EXISTS provider_reference VARCHAR(255);
+ALTER TABLE payment_refunds ADD COLUMN IF NOT EXISTS failure_reason TEXT;
+ALTER TABLE payment_refunds ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP DEFAULT NOW();
+
+-- At most one refund in flight or settled per return; a failed one may be retried
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payment_refunds_active_return
+  ON payment_refunds(return_id) WHERE status IN ('PENDING', 'SUCCESS');
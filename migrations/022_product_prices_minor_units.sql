@@ -0,0 +1,32 @@
+-- migrations/022_product_prices_minor_units.sql
+-- Catalog prices move to integer minor units of the catalog currency, like order amounts did in 018.
+-- The catalog currency is CATALOG_CURRENCY in the app; run with SET app.catalog_currency = '...' first
+-- when it is not KES.
+
+-- Convert exactly once: products.unit_price is still INTEGER until this block has run
+DO $$
+DECLARE
+  scale bigint := 10 ^ currency_minor_digits(COALESCE(NULLIF(current_setting('app.catalog_currency', true), ''), 'KES'));
+BEGIN
+  IF (SELECT data_type FROM information_schema.columns
+      WHERE table_name = 'products' AND column_name = 'unit_price') <> 'integer' THEN
+    RETURN;
+  END IF;
+
+  -- Variant price overrides inside products.variants
+  UPDATE products p
+  SET variants = (
+    SELECT COALESCE(jsonb_agg(
+      CASE WHEN entry.variant ? 'unitPrice'
+        THEN entry.variant || jsonb_build_object('unitPrice', ((entry.variant->>'unitPrice')::numeric * scale)::bigint)
+        ELSE entry.variant
+      END
+      ORDER BY entry.position
+    ), '[]'::jsonb)
+    FROM jsonb_array_elements(p.variants) WITH ORDINALITY AS entry(variant, position)
+  );
+
+  ALTER TABLE products
+    ALTER COLUMN unit_price TYPE BIGINT USING unit_price * scale;
+END
+$$;
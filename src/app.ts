@@ -11,7 +11,13 @@ declare global {
 import { authRoutes } from './routes/auth.js';
 import { initializeOrderRoutes } from './routes/orders.js';
 import { initializePaymentRoutes } from './routes/payment.js';
+import { initializeProductRoutes } from './routes/products.js';
+import { initializeInventoryRoutes } from './routes/inventory.js';
+import { initializeAdminRoutes } from './routes/admin.js';
+import { initializeShipmentRoutes } from './routes/shipments.js';
+import { initializeReturnRoutes } from './routes/returns.js';
 import { errorHandler } from './middleware/errorHandler.js';
+import { ORDER_EXPIRY_MINUTES, ORDER_EXPIRY_SWEEP_SECONDS, OrderExpiryService } from './services/orderExpiryService.js';
 
 dotenv.config();
 
@@ -46,6 +52,11 @@ app.use((req, res, next) => {
 app.use('/api/auth', authRoutes);
 app.use('/api/orders', initializeOrderRoutes(sql));
 app.use('/api/payments', initializePaymentRoutes(sql));
+app.use('/api/products', initializeProductRoutes(sql));
+app.use('/api/inventory', initializeInventoryRoutes(sql));
+app.use('/api/shipments', initializeShipmentRoutes(sql));
+app.use('/api/returns', initializeReturnRoutes(sql));
+app.use('/api/admin', initializeAdminRoutes(sql));
 
 // Metrics endpoint
 app.get('/metrics', (req, res) => {
@@ -116,6 +127,9 @@ app.get('/health', async (req, res) => {
 async function startServer() {
   try {
     await initializeDatabase();
+
+    // Cancel orders left unpaid past the expiry window; every instance can run this
+    new OrderExpiryService(sql).start();
     
     app.listen(PORT, () => {
       console.log(`🚀 Server running on port ${PORT}`);
@@ -125,12 +139,43 @@ async function startServer() {
       console.log('POST /api/auth/login       - Login user');
       console.log('POST /api/orders           - Create order');
       console.log('GET  /api/orders           - List orders');
+      console.log('GET  /api/orders/export    - Export orders as CSV/NDJSON (ADMIN)');
+      console.log('GET  /api/orders/by-number/:orderNumber - Get order by number');
       console.log('GET  /api/orders/:id       - Get order details');
+      console.log('GET  /api/orders/:id/history - Get order status history');
+      console.log('POST /api/orders/:id/cancel - Cancel own order');
+      console.log('PATCH /api/orders/:id/items - Edit items on a pending order');
+      console.log('PATCH /api/orders/:id/shipping-address - Update shipping address');
+      console.log('PATCH /api/orders/:id/metadata - Replace order metadata');
       console.log('PATCH /api/orders/:id/status - Update order status (ADMIN)');
+      console.log('POST /api/orders/:id/shipments - Create shipment (ADMIN)');
+      console.log('GET  /api/orders/:id/shipments - Shipments and tracking timeline');
+      console.log('GET  /api/orders/:id/fulfilment - Per-line fulfilment');
+      console.log('GET  /api/orders/:id/comments - Internal comments (ADMIN)');
+      console.log('POST /api/orders/:id/comments - Add internal comment (ADMIN)');
+      console.log('POST /api/orders/:id/returns - Open a return');
+      console.log('GET  /api/orders/:id/returns - Returns of an order');
+      console.log('GET  /api/orders/:id/invoice - Invoice (JSON, HTML or PDF)');
+      console.log('GET  /api/orders/:id/credit-notes - Credit notes for refunds');
+      console.log('POST /api/orders/bulk/status - Bulk update order statuses (ADMIN)');
+      console.log('GET  /api/products         - List catalog products');
+      console.log('POST /api/products         - Create product (ADMIN)');
+      console.log('PATCH /api/products/:sku   - Update product (ADMIN)');
+      console.log('DELETE /api/products/:sku  - Deactivate product (ADMIN)');
+      console.log('GET  /api/inventory        - Stock levels (ADMIN)');
+      console.log('POST /api/inventory/:sku/adjust - Adjust stock (ADMIN)');
+      console.log('POST /api/shipments/webhook - Carrier tracking webhook');
+      console.log('GET  /api/returns          - Return requests (ADMIN)');
+      console.log('POST /api/returns/:id/{approve,reject,receive,refund} - Return workflow (ADMIN)');
+      console.log('GET  /api/admin/fulfilment/outstanding - Outstanding items (ADMIN)');
+      console.log('GET  /api/admin/analytics/orders - Order analytics (ADMIN)');
       console.log('POST /api/payments/initiate   - Initiate payment');
       console.log('POST /api/payments/webhook    - Payment webhook');
       console.log('GET  /metrics              - Application metrics');
       console.log('GET  /health               - Health check');
+      if (ORDER_EXPIRY_MINUTES > 0) {
+        console.log(`\n⏰ Unpaid orders expire after ${ORDER_EXPIRY_MINUTES} min (sweep every ${ORDER_EXPIRY_SWEEP_SECONDS}s)`);
+      }
       console.log(`\n🔗 Base URL: http://localhost:${PORT}`);
     });
   } catch (error) {
@@ -0,0 +1,43 @@
+// Analytics models
+import type { Money } from './Money.js';
+import type { OrderSummary } from './Order.js';
+
+// Time series bucket size
+export type AnalyticsInterval = 'day' | 'week';
+
+export interface AnalyticsRange {
+  from: Date;
+  to: Date;
+}
+
+// Analytics query input; `to` is exclusive. Without a currency, revenue is reported per currency.
+export interface OrderAnalyticsQuery extends AnalyticsRange {
+  interval: AnalyticsInterval;
+  topSkuLimit: number;
+  currency?: string;
+}
+
+// Orders and revenue (one entry per currency) for one day or week; buckets without orders are included as zero
+export interface OrderTimeSeriesPoint {
+  period: Date;
+  orderCount: number;
+  revenue: Money[];
+}
+
+// Best-selling SKU across revenue-generating orders in one currency
+export interface TopSkuEntry {
+  sku: string;
+  productName: string | null;
+  quantity: number;
+  revenue: Money;
+  orderCount: number;
+}
+
+export interface OrderAnalytics {
+  range: AnalyticsRange;
+  interval: AnalyticsInterval;
+  currency: string | null;
+  summary: OrderSummary;
+  timeSeries: OrderTimeSeriesPoint[];
+  topSkus: TopSkuEntry[];
+}
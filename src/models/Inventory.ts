@@ -0,0 +1,33 @@
+// Inventory models
+
+// Reservation status enumeration
+export enum ReservationStatus {
+  RESERVED = 'RESERVED',
+  COMMITTED = 'COMMITTED',
+  RELEASED = 'RELEASED',
+  EXPIRED = 'EXPIRED'
+}
+
+// Stock level for a single SKU
+export interface StockLevel {
+  sku: string;
+  onHand: number;
+  reserved: number;
+  available: number;
+  updated_at: Date;
+}
+
+// Requested quantity that cannot be covered by available stock
+export interface StockShortage {
+  sku: string;
+  requested: number;
+  available: number;
+}
+
+// Admin stock adjustment input interface
+export interface StockAdjustmentInput {
+  sku: string;
+  delta: number;
+  reason?: string;
+  actorId?: string;
+}
@@ -0,0 +1,78 @@
+// Invoice and credit note models
+import type { Money } from './Money.js';
+
+export enum InvoiceType {
+  INVOICE = 'INVOICE',
+  CREDIT_NOTE = 'CREDIT_NOTE'
+}
+
+// Number prefix per document type; numbers run per prefix and year, e.g. INV-2026-000042
+export const INVOICE_NUMBER_PREFIXES: Record<InvoiceType, string> = {
+  [InvoiceType.INVOICE]: 'INV',
+  [InvoiceType.CREDIT_NOTE]: 'CN'
+};
+
+// Formats a document can be downloaded in
+export type InvoiceFormat = 'json' | 'html' | 'pdf';
+
+export interface SellerDetails {
+  name: string;
+  address: string[];
+  taxId?: string;
+  email?: string;
+}
+
+export interface BuyerDetails {
+  name: string;
+  email?: string;
+  address: string[];
+}
+
+export interface InvoiceLine {
+  sku: string;
+  description: string;
+  quantity: number;
+  unitPrice: Money;
+  lineTotal: Money;
+}
+
+// Tax charged on the taxable amount (after discount, including shipping)
+export interface TaxBreakdown {
+  rate: number;
+  taxable: Money;
+  tax: Money;
+}
+
+export interface InvoicePayment {
+  reference: string;
+  transactionId?: string;
+  method?: string;
+  paidAt?: Date;
+}
+
+// An issued invoice or credit note; the stored snapshot never changes once issued
+export interface Invoice {
+  id: string;
+  number: string;
+  type: InvoiceType;
+  order_id: string;
+  orderNumber: string | null;
+  // Credit notes: the invoice they correct
+  creditedInvoiceNumber?: string;
+  seller: SellerDetails;
+  buyer: BuyerDetails;
+  currency: string;
+  lines: InvoiceLine[];
+  subtotal: Money;
+  discount: Money;
+  shipping: Money;
+  tax: TaxBreakdown;
+  total: Money;
+  payment: InvoicePayment;
+  // Credit notes: the refund they document
+  refundReference?: string;
+  issued_at: Date;
+}
+
+// The part of an invoice fixed before it is numbered and stored
+export type InvoiceDocument = Omit<Invoice, 'id' | 'number' | 'issued_at'>;
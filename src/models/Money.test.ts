@@ -0,0 +1,55 @@
+import { CurrencyMismatchError, Money } from './Money.js';
+
+describe('Money.fromMajor', () => {
+  it('scales by the currency minor unit', () => {
+    expect(Money.fromMajor(1500.5, 'KES')).toEqual(Money.of(150050, 'KES'));
+    expect(Money.fromMajor(1500, 'JPY')).toEqual(Money.of(1500, 'JPY'));
+    expect(Money.fromMajor(1.5, 'BHD')).toEqual(Money.of(1500, 'BHD'));
+  });
+
+  it('rounds from the decimal form, half away from zero', () => {
+    expect(Money.fromMajor(1.005, 'KES')).toEqual(Money.of(101, 'KES'));
+    expect(Money.fromMajor(-1.005, 'KES')).toEqual(Money.of(-101, 'KES'));
+    expect(Money.fromMajor(0.5, 'JPY')).toEqual(Money.of(1, 'JPY'));
+  });
+
+  it('round-trips through toMajorString', () => {
+    expect(Money.toMajorString(Money.fromMajor(1500.5, 'KES'))).toBe('1500.50');
+    expect(Money.toMajorString(Money.of(-5, 'BHD'))).toBe('-0.005');
+  });
+});
+
+describe('Money.multiply', () => {
+  it('applies rates exactly and rounds half away from zero', () => {
+    expect(Money.multiply(Money.of(280000, 'KES'), 0.16)).toEqual(Money.of(44800, 'KES'));
+    expect(Money.multiply(Money.of(5, 'KES'), 0.5)).toEqual(Money.of(3, 'KES'));
+    expect(Money.multiply(Money.of(-5, 'KES'), 0.5)).toEqual(Money.of(-3, 'KES'));
+  });
+
+  it('only accepts whole minor units', () => {
+    expect(() => Money.of(1.5, 'KES')).toThrow(RangeError);
+  });
+});
+
+describe('Money.convert', () => {
+  it('converts at the given rate between currencies with the same minor unit', () => {
+    // 1,000.00 KES at 0.0077 USD per KES
+    expect(Money.convert(Money.of(100000, 'KES'), 'USD', 0.0077)).toEqual(Money.of(770, 'USD'));
+  });
+
+  it('adjusts for currencies with a different minor unit', () => {
+    expect(Money.convert(Money.of(100000, 'KES'), 'JPY', 1.15)).toEqual(Money.of(1150, 'JPY'));
+    expect(Money.convert(Money.of(1150, 'JPY'), 'BHD', 0.0025)).toEqual(Money.of(2875, 'BHD'));
+  });
+
+  it('rounds half away from zero', () => {
+    expect(Money.convert(Money.of(50, 'KES'), 'USD', 0.01)).toEqual(Money.of(1, 'USD'));
+    expect(Money.convert(Money.of(-50, 'KES'), 'USD', 0.01)).toEqual(Money.of(-1, 'USD'));
+  });
+});
+
+describe('Money arithmetic', () => {
+  it('refuses to combine different currencies', () => {
+    expect(() => Money.add(Money.of(100, 'KES'), Money.of(100, 'USD'))).toThrow(CurrencyMismatchError);
+  });
+});
@@ -0,0 +1,194 @@
+// Money value type: integer minor units (cents; whole yen for JPY) plus an ISO 4217 currency
+
+// An amount of money; this object is also its JSON form in every response
+export interface Money {
+  amount: number;
+  currency: string;
+}
+
+// Raised when amounts in different currencies are combined
+export class CurrencyMismatchError extends Error {
+  override name = 'CurrencyMismatchError';
+
+  constructor(public readonly expected: string, public readonly actual: string) {
+    super(`Cannot combine ${expected} and ${actual} amounts`);
+  }
+}
+
+// Currencies whose minor unit is not 2 digits. Pinned rather than read from Intl so stored
+// amounts never change meaning with the runtime's locale data; migrations/018 uses the same list.
+const MINOR_UNIT_EXCEPTIONS: Record<string, number> = Object.fromEntries([
+  ...['AFN', 'ALL', 'BIF', 'CLP', 'DJF', 'GNF', 'IQD', 'IRR', 'ISK', 'JPY', 'KMF', 'KPW', 'KRW', 'LAK', 'LBP',
+    'MGA', 'MMK', 'PYG', 'RSD', 'RWF', 'SLL', 'SOS', 'SYP', 'UGX', 'VND', 'VUV', 'XAF', 'XOF', 'XPF', 'YER']
+    .map(code => [code, 0]),
+  ...['BHD', 'JOD', 'KWD', 'LYD', 'OMR', 'TND'].map(code => [code, 3])
+]);
+
+const assertMinorUnits = (amount: number): void => {
+  if (!Number.isSafeInteger(amount)) {
+    throw new RangeError(`Money amounts must be whole minor units, got ${amount}`);
+  }
+};
+
+const assertSameCurrency = (left: Money, right: Money): void => {
+  if (left.currency !== right.currency) {
+    throw new CurrencyMismatchError(left.currency, right.currency);
+  }
+};
+
+/**
+ * amount * numerator / denominator in exact integer arithmetic, rounded half away
+ * from zero (Math.round would send -2.5 to -2)
+ */
+const scaleRounded = (amount: bigint, numerator: bigint, denominator: bigint): number => {
+  if (denominator === 0n) {
+    throw new RangeError('Cannot scale money by a zero denominator');
+  }
+
+  const product = amount * numerator;
+  const negative = (product < 0n) !== (denominator < 0n);
+  const absProduct = product < 0n ? -product : product;
+  const absDenominator = denominator < 0n ? -denominator : denominator;
+
+  let quotient = absProduct / absDenominator;
+  if ((absProduct % absDenominator) * 2n >= absDenominator) {
+    quotient += 1n;
+  }
+
+  return Number(negative ? -quotient : quotient);
+};
+
+// Exact decimal form of a factor such as 0.16 or 0.075, as numerator / 10^12
+const FACTOR_SCALE = 12;
+const toRatio = (factor: number): [bigint, bigint] => {
+  if (!Number.isFinite(factor)) {
+    throw new RangeError(`Cannot multiply money by ${factor}`);
+  }
+  return [BigInt(factor.toFixed(FACTOR_SCALE).replace('.', '')), 10n ** BigInt(FACTOR_SCALE)];
+};
+
+export const Money = {
+  /**
+   * Minor unit digits of a currency: 2 for KES and USD, 0 for JPY, 3 for BHD
+   */
+  minorUnitDigits(currency: string): number {
+    return MINOR_UNIT_EXCEPTIONS[currency] ?? 2;
+  },
+
+  of(amount: number, currency: string): Money {
+    assertMinorUnits(amount);
+    // Normalise -0 so it serialises as 0
+    return { amount: amount || 0, currency };
+  },
+
+  zero(currency: string): Money {
+    return { amount: 0, currency };
+  },
+
+  /**
+   * Money from a database column; BIGINT values arrive as strings
+   */
+  fromDb(value: string | number | bigint, currency: string): Money {
+    return Money.of(Number(value), currency);
+  },
+
+  /**
+   * Convert major units (e.g. a configured fee of 300 KES) to minor units, rounding
+   * half away from zero. Goes through the decimal string so 1.005 is not read as 1.00499...
+   */
+  fromMajor(value: number, currency: string): Money {
+    const digits = Money.minorUnitDigits(currency);
+    const text = String(Math.abs(value));
+    const shifted = text.includes('e') ? Math.abs(value) * 10 ** digits : Number(`${text}e${digits}`);
+    return Money.of(Math.sign(value) * Math.round(shifted), currency);
+  },
+
+  /**
+   * Decimal string in major units, e.g. "1500.00" for 150000 KES minor units
+   */
+  toMajorString(money: Money): string {
+    const digits = Money.minorUnitDigits(money.currency);
+    const sign = money.amount < 0 ? '-' : '';
+    const units = String(Math.abs(money.amount)).padStart(digits + 1, '0');
+    return digits === 0
+      ? `${sign}${units}`
+      : `${sign}${units.slice(0, -digits)}.${units.slice(-digits)}`;
+  },
+
+  /**
+   * Convert to another currency at `rate` units of it per unit of the source currency,
+   * adjusting for the currencies' minor units and rounding half away from zero
+   */
+  convert(money: Money, currency: string, rate: number): Money {
+    const [numerator, denominator] = toRatio(rate);
+    return Money.of(
+      scaleRounded(
+        BigInt(money.amount),
+        numerator * 10n ** BigInt(Money.minorUnitDigits(currency)),
+        denominator * 10n ** BigInt(Money.minorUnitDigits(money.currency))
+      ),
+      currency
+    );
+  },
+
+  add(left: Money, right: Money): Money {
+    assertSameCurrency(left, right);
+    return Money.of(left.amount + right.amount, left.currency);
+  },
+
+  subtract(left: Money, right: Money): Money {
+    assertSameCurrency(left, right);
+    return Money.of(left.amount - right.amount, left.currency);
+  },
+
+  /**
+   * Total of several amounts; the currency is needed for the empty case
+   */
+  sum(amounts: Money[], currency: string): Money {
+    return amounts.reduce((total, amount) => Money.add(total, amount), Money.zero(currency));
+  },
+
+  /**
+   * Multiply by a quantity or a rate (e.g. a 0.16 tax rate), rounding half away from zero
+   */
+  multiply(money: Money, factor: number): Money {
+    if (Number.isInteger(factor)) {
+      return Money.of(money.amount * factor, money.currency);
+    }
+    const [numerator, denominator] = toRatio(factor);
+    return Money.of(scaleRounded(BigInt(money.amount), numerator, denominator), money.currency);
+  },
+
+  /**
+   * money * numerator / denominator for same-currency amounts, rounding half away from zero.
+   * Used for proportional shares, e.g. the part of a total that belongs to some lines.
+   */
+  prorate(money: Money, numerator: Money, denominator: Money): Money {
+    assertSameCurrency(money, numerator);
+    assertSameCurrency(money, denominator);
+    return Money.of(
+      scaleRounded(BigInt(money.amount), BigInt(numerator.amount), BigInt(denominator.amount)),
+      money.currency
+    );
+  },
+
+  /**
+   * Split evenly into `parts`, rounding half away from zero (e.g. an average)
+   */
+  divide(money: Money, parts: number): Money {
+    if (!Number.isSafeInteger(parts)) {
+      throw new RangeError(`Money can only be divided into whole parts, got ${parts}`);
+    }
+    return Money.of(scaleRounded(BigInt(money.amount), 1n, BigInt(parts)), money.currency);
+  },
+
+  min(left: Money, right: Money): Money {
+    assertSameCurrency(left, right);
+    return left.amount <= right.amount ? left : right;
+  },
+
+  compare(left: Money, right: Money): number {
+    assertSameCurrency(left, right);
+    return Math.sign(left.amount - right.amount);
+  }
+};
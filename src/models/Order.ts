@@ -1,11 +1,15 @@
 
 // Database Models and Migrations
+import type { OrderFulfilment, Shipment } from './Shipment.js';
+import type { ReturnRequest } from './Return.js';
+import { Money } from './Money.js';
 
 // Order status enumeration
 export enum OrderStatus {
   PENDING = 'PENDING',
   CONFIRMED = 'CONFIRMED',
   PROCESSING = 'PROCESSING',
+  PARTIALLY_SHIPPED = 'PARTIALLY_SHIPPED',
   SHIPPED = 'SHIPPED',
   DELIVERED = 'DELIVERED',
   PAID = 'PAID',
@@ -29,18 +33,27 @@ export enum UserRole {
   SUPER_ADMIN = 'SUPER_ADMIN'
 }
 
-// Order item interface
+// Order item interface; prices are in the order's currency
 export interface OrderItem {
   id?: string;
   sku: string;
   quantity: number;
-  price: number;
+  price: Money;
   productName?: string;
-  totalPrice?: number;
+  totalPrice?: Money;
   variant?: string;
   metadata?: Record<string, any>;
 }
 
+// Item as requested by a client; the price comes from the catalog
+export type OrderItemRequest = Omit<OrderItem, 'id' | 'price' | 'totalPrice'>;
+
+// Item as stored in orders.items: prices are bare minor-unit integers, the currency lives on the order
+export type StoredOrderItem = Omit<OrderItem, 'price' | 'totalPrice'> & {
+  price: number;
+  totalPrice?: number;
+};
+
 // Shipping address interface
 export interface ShippingAddress {
   firstName: string;
@@ -55,6 +68,74 @@ export interface ShippingAddress {
   phoneNumber?: string;
 }
 
+// Shipping method enumeration
+export enum ShippingMethod {
+  STANDARD = 'STANDARD',
+  EXPRESS = 'EXPRESS',
+  PICKUP = 'PICKUP'
+}
+
+// Postal code formats by ISO 3166-1 alpha-2 country code
+export const POSTAL_CODE_PATTERNS: Record<string, RegExp> = {
+  KE: /^\d{5}$/,
+  TZ: /^\d{5}$/,
+  NG: /^\d{6}$/,
+  ZA: /^\d{4}$/,
+  US: /^\d{5}(-\d{4})?$/,
+  CA: /^[A-Z]\d[A-Z] ?\d[A-Z]\d$/i,
+  GB: /^[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}$/i,
+  DE: /^\d{5}$/,
+  FR: /^\d{5}$/,
+  NL: /^\d{4} ?[A-Z]{2}$/i,
+  IN: /^\d{6}$/,
+  AU: /^\d{4}$/
+};
+
+// Fallback for countries without a specific format
+const GENERIC_POSTAL_CODE_PATTERN = /^[A-Z0-9][A-Z0-9\- ]{1,9}$/i;
+
+// Currency for orders created without one (ISO 4217)
+export const DEFAULT_CURRENCY = (process.env.DEFAULT_CURRENCY || 'KES').toUpperCase();
+
+// Currency the catalog prices and the pricing settings are kept in
+export const CATALOG_CURRENCY = (process.env.CATALOG_CURRENCY || DEFAULT_CURRENCY).toUpperCase();
+
+// Exchange rates from the catalog currency, e.g. CURRENCY_RATES="USD:0.0077,EUR:0.0071"
+// (1 KES = 0.0077 USD). Prices are converted once, when an order is priced.
+export const CURRENCY_RATES: Record<string, number> = {
+  [CATALOG_CURRENCY]: 1,
+  ...Object.fromEntries(
+    (process.env.CURRENCY_RATES || '')
+      .split(',')
+      .map(entry => entry.split(':').map(part => part.trim()))
+      .filter(([code, rate]) => code && Number(rate) > 0)
+      .map(([code, rate]) => [code!.toUpperCase(), Number(rate)])
+  )
+};
+
+// Currencies orders can be placed in: the catalog currency and every currency with a rate
+export const SUPPORTED_CURRENCIES: string[] = Object.keys(CURRENCY_RATES);
+
+// ISO 4217 codes known to the runtime's ICU data
+const ISO_4217_CURRENCIES = new Set(Intl.supportedValuesOf('currency'));
+
+// Raised when an amount is needed in a currency the catalog cannot be converted to
+export class UnsupportedCurrencyError extends Error {
+  override name = 'UnsupportedCurrencyError';
+
+  constructor(public readonly currency: string) {
+    super(`Currency ${currency} is not supported; supported: ${SUPPORTED_CURRENCIES.join(', ')}`);
+  }
+}
+
+// Limits on integration-supplied order metadata
+export const ORDER_METADATA_LIMITS = {
+  maxKeys: 50,        // keys across all nesting levels
+  maxKeyLength: 40,
+  maxDepth: 3,        // a flat object is depth 1
+  maxBytes: 4096      // serialized JSON
+};
+
 // Main Order interface
 export interface Order {
   id: string | null;
@@ -65,17 +146,22 @@ export interface Order {
   paymentStatus?: PaymentStatus;
   client_token: string;
   
-  // Pricing fields
-  total_amount: number;
-  subtotal?: number;
-  taxAmount?: number;
-  shippingAmount?: number;
-  discountAmount?: number;
+  // Pricing fields; all amounts are in the order's currency
+  currency: string;
+  total_amount: Money;
+  subtotal?: Money;
+  taxRate?: number;
+  taxAmount?: Money;
+  shippingAmount?: Money;
+  discountAmount?: Money;
   
   // Shipping information
   shippingAddress?: ShippingAddress;
   shippingMethod?: string;
   trackingNumber?: string;
+  shipments?: Shipment[];
+  fulfilment?: OrderFulfilment;
+  returns?: ReturnRequest[];
   
   // Payment information
   paymentMethod?: string;
@@ -85,6 +171,7 @@ export interface Order {
   version: number;
   created_at: Date;
   updated_at: Date;
+  paidAt?: Date;
   shippedAt?: Date;
   deliveredAt?: Date;
   
@@ -96,11 +183,12 @@ export interface Order {
 // Create order input interface
 export interface CreateOrderInput {
   user_id: string;
-  items: Omit<OrderItem, 'id' | 'totalPrice'>[];
+  items: OrderItemRequest[];
   client_token: string;
   shippingAddress?: ShippingAddress;
   shippingMethod?: string;
   paymentMethod?: string;
+  currency?: string;
   notes?: string;
   metadata?: Record<string, any>;
 }
@@ -115,19 +203,129 @@ export interface UpdateOrderInput {
   metadata?: Record<string, any>;
 }
 
+// Change to a pending order's items: quantity 0 removes the line, any other value sets it
+export interface OrderItemChange {
+  sku: string;
+  variant?: string;
+  quantity: number;
+}
+
+// Internal staff comment on an order; never part of the customer-facing order
+export interface OrderComment {
+  id: string;
+  order_id: string;
+  author: {
+    id: string;
+    email?: string;
+    role: UserRole;
+  };
+  body: string;
+  created_at: Date;
+}
+
+// Who triggered an order status change
+export type StatusChangeActorType = 'user' | 'admin' | 'payment-webhook' | 'carrier-webhook' | 'system';
+
+export interface StatusChangeActor {
+  type: StatusChangeActorType;
+  id?: string;
+}
+
+// Context recorded alongside a status change
+export interface StatusChangeContext {
+  actor: StatusChangeActor;
+  reason?: string;
+  // Only apply the change while the order has no PENDING or PROCESSING payment
+  requireNoOpenPayment?: boolean;
+}
+
+// Append-only order status history entry
+export interface OrderStatusHistoryEntry {
+  id: string;
+  order_id: string;
+  fromStatus: OrderStatus | null;
+  toStatus: OrderStatus;
+  version: number;
+  actor: StatusChangeActor;
+  reason?: string;
+  created_at: Date;
+}
+
+// One entry of an admin bulk status update
+export interface BulkStatusUpdate {
+  id: string;
+  status: OrderStatus;
+  version: number;
+}
+
+export type BulkStatusOutcome = 'updated' | 'conflict' | 'not_found' | 'invalid_transition' | 'error';
+
+// Per-entry result of a bulk status update; one failing entry never fails the batch
+export interface BulkStatusResult {
+  id: string;
+  outcome: BulkStatusOutcome;
+  order?: Order;
+  error?: string;
+  current_status?: OrderStatus;
+  allowed_transitions?: OrderStatus[];
+}
+
 // Order query filters
 export interface OrderFilters {
   user_id?: string;
   status?: OrderStatus;
   paymentStatus?: PaymentStatus;
+  currency?: string;
   dateFrom?: Date;
   dateTo?: Date;
+  // Bounds on total_amount in minor units of `currency`
   minAmount?: number;
   maxAmount?: number;
+  search?: OrderSearch;
+  metadata?: Record<string, string>;
   limit?: number;
   offset?: number;
 }
 
+// How an order listing search term is matched
+export enum OrderSearchMode {
+  SKU = 'sku',
+  SKU_PREFIX = 'sku_prefix',
+  PRODUCT_NAME = 'product_name',
+  ORDER_NUMBER = 'order_number'
+}
+
+export interface OrderSearch {
+  term: string;
+  mode: OrderSearchMode;
+}
+
+// Columns an order listing may be sorted by
+export const ORDER_SORT_FIELDS = ['created_at', 'updated_at', 'total_amount', 'status', 'order_number'] as const;
+
+export type OrderSortField = typeof ORDER_SORT_FIELDS[number];
+
+export interface OrderSortKey {
+  field: OrderSortField;
+  direction: 'ASC' | 'DESC';
+}
+
+// Order listing request: filters plus sorting and paging mode
+export interface OrderListQuery extends OrderFilters {
+  sort?: OrderSortKey[];
+  paginate?: 'offset' | 'cursor';
+  cursor?: string;
+  includeTotal?: boolean;
+}
+
+// Order listing page; cursors are only set in cursor mode
+export interface OrderListResult {
+  orders: Order[];
+  total?: number;
+  nextCursor?: string | null;
+  prevCursor?: string | null;
+}
+
 // Database row interface (for raw database queries)
 export interface OrderRow {
   id: string | null;
@@ -137,8 +335,10 @@ export interface OrderRow {
   status: OrderStatus | null;
   payment_status?: PaymentStatus | null;
   client_token: string;
+  currency: string;
   total_amount: number;
   subtotal?: number;
+  tax_rate?: number;
   tax_amount?: number;
   shipping_amount?: number;
   discount_amount?: number;
@@ -150,6 +350,7 @@ export interface OrderRow {
   version: number;
   created_at: Date;
   updated_at: Date;
+  paid_at?: Date;
   shipped_at?: Date;
   delivered_at?: Date;
   notes?: string;
@@ -167,15 +368,17 @@ export const OrderHelpers = {
       id: row.id,
       user_id: row.user_id!,
       orderNumber: row.order_number!,
-      items: JSON.parse(row.items!),
+      items: OrderHelpers.fromStoredItems(JSON.parse(row.items!), row.currency),
       status: row.status!,
       paymentStatus: row.payment_status!,
       client_token: row.client_token,
-      total_amount: row.total_amount,
-      subtotal: row.subtotal,
-      taxAmount: row.tax_amount,
-      shippingAmount: row.shipping_amount,
-      discountAmount: row.discount_amount,
+      currency: row.currency,
+      total_amount: Money.fromDb(row.total_amount, row.currency),
+      subtotal: row.subtotal != null ? Money.fromDb(row.subtotal, row.currency) : undefined,
+      taxRate: row.tax_rate,
+      taxAmount: row.tax_amount != null ? Money.fromDb(row.tax_amount, row.currency) : undefined,
+      shippingAmount: row.shipping_amount != null ? Money.fromDb(row.shipping_amount, row.currency) : undefined,
+      discountAmount: row.discount_amount != null ? Money.fromDb(row.discount_amount, row.currency) : undefined,
       shippingAddress: row.shipping_address ? JSON.parse(row.shipping_address) : undefined,
       shippingMethod: row.shipping_method,
       trackingNumber: row.tracking_number,
@@ -184,6 +387,7 @@ export const OrderHelpers = {
       version: row.version,
       created_at: row.created_at,
       updated_at: row.updated_at,
+      paidAt: row.paid_at,
       shippedAt: row.shipped_at,
       deliveredAt: row.delivered_at,
       notes: row.notes,
@@ -199,15 +403,17 @@ export const OrderHelpers = {
       id: order.id,
       user_id: order.user_id,
       order_number: order.orderNumber,
-      items: order.items ? JSON.stringify(order.items) : undefined,
+      items: order.items ? JSON.stringify(OrderHelpers.toStoredItems(order.items)) : undefined,
       status: order.status,
       payment_status: order.paymentStatus,
       client_token: order.client_token,
-      total_amount: order.total_amount,
-      subtotal: order.subtotal,
-      tax_amount: order.taxAmount,
-      shipping_amount: order.shippingAmount,
-      discount_amount: order.discountAmount,
+      currency: order.currency,
+      total_amount: order.total_amount?.amount,
+      subtotal: order.subtotal?.amount,
+      tax_rate: order.taxRate,
+      tax_amount: order.taxAmount?.amount,
+      shipping_amount: order.shippingAmount?.amount,
+      discount_amount: order.discountAmount?.amount,
       shipping_address: order.shippingAddress ? JSON.stringify(order.shippingAddress) : undefined,
       shipping_method: order.shippingMethod,
       tracking_number: order.trackingNumber,
@@ -216,6 +422,7 @@ export const OrderHelpers = {
       version: order.version,
       created_at: order.created_at,
       updated_at: order.updated_at,
+      paid_at: order.paidAt,
       shipped_at: order.shippedAt,
       delivered_at: order.deliveredAt,
       notes: order.notes,
@@ -223,20 +430,42 @@ export const OrderHelpers = {
     };
   },
 
+  /**
+   * Items with bare minor-unit prices, as stored in orders.items
+   */
+  toStoredItems(items: OrderItem[]): StoredOrderItem[] {
+    return items.map(({ price, totalPrice, ...item }) => ({
+      ...item,
+      price: price.amount,
+      ...(totalPrice && { totalPrice: totalPrice.amount })
+    }));
+  },
+
+  /**
+   * Items read from orders.items, with prices in the order's currency
+   */
+  fromStoredItems(items: StoredOrderItem[], currency: string): OrderItem[] {
+    return items.map(({ price, totalPrice, ...item }) => ({
+      ...item,
+      price: Money.fromDb(price, currency),
+      ...(totalPrice != null && { totalPrice: Money.fromDb(totalPrice, currency) })
+    }));
+  },
+
   /**
    * Calculate order totals
    */
-  calculateTotals(items: OrderItem[]): {
-    subtotal: number;
+  calculateTotals(items: OrderItem[], currency: string): {
+    subtotal: Money;
     itemCount: number;
   } {
-    const subtotal = items.reduce((sum, item) => {
-      const itemTotal = item.totalPrice || (item.price * item.quantity);
-      return sum + itemTotal;
-    }, 0);
+    const subtotal = Money.sum(
+      items.map(item => item.totalPrice ?? Money.multiply(item.price, item.quantity)),
+      currency
+    );
 
     return {
-      subtotal: Number(subtotal.toFixed(2)),
+      subtotal,
       itemCount: items.reduce((sum, item) => sum + item.quantity, 0)
     };
   },
@@ -249,17 +478,123 @@ export const OrderHelpers = {
       item.sku && 
       typeof item.quantity === 'number' && 
       item.quantity > 0 &&
-      typeof item.price === 'number' && 
-      item.price > 0
+      Number.isSafeInteger(item.price?.amount) && 
+      item.price.amount > 0
     );
+  },
+
+  /**
+   * Check a postal code against the format used by its country
+   */
+  isValidPostalCode(country: string, postalCode: string): boolean {
+    const pattern = POSTAL_CODE_PATTERNS[country.toUpperCase()] ?? GENERIC_POSTAL_CODE_PATTERN;
+    return pattern.test(postalCode.trim());
+  },
+
+  /**
+   * Check that a code is an ISO 4217 currency (upper case, e.g. KES, USD)
+   */
+  isValidCurrency(code: string): boolean {
+    return ISO_4217_CURRENCIES.has(code);
+  },
+
+  /**
+   * Check that orders can be placed in a currency (see SUPPORTED_CURRENCIES)
+   */
+  isSupportedCurrency(code: string): boolean {
+    return SUPPORTED_CURRENCIES.includes(code);
+  },
+
+  /**
+   * A pricing setting (major units of CATALOG_CURRENCY) in an order's currency
+   */
+  fromCatalog(major: number, currency: string): Money {
+    return OrderHelpers.convertFromCatalog(Money.fromMajor(major, CATALOG_CURRENCY), currency);
+  },
+
+  /**
+   * A catalog price (CATALOG_CURRENCY) in an order's currency
+   */
+  convertFromCatalog(price: Money, currency: string): Money {
+    const rate = CURRENCY_RATES[currency];
+    if (rate === undefined) {
+      throw new UnsupportedCurrencyError(currency);
+    }
+    return Money.convert(price, currency, rate);
+  },
+
+  /**
+   * Check metadata against ORDER_METADATA_LIMITS; returns the first problem, or null if it is acceptable
+   */
+  findMetadataProblem(metadata: unknown): string | null {
+    if (typeof metadata !== 'object' || metadata === null || Array.isArray(metadata)) {
+      return 'Metadata must be an object';
+    }
+
+    if (Buffer.byteLength(JSON.stringify(metadata)) > ORDER_METADATA_LIMITS.maxBytes) {
+      return `Metadata must be at most ${ORDER_METADATA_LIMITS.maxBytes} bytes`;
+    }
+
+    let keyCount = 0;
+    const visit = (value: unknown, depth: number): string | null => {
+      if (typeof value !== 'object' || value === null) {
+        return null;
+      }
+      if (depth > ORDER_METADATA_LIMITS.maxDepth) {
+        return `Metadata may be nested at most ${ORDER_METADATA_LIMITS.maxDepth} levels deep`;
+      }
+
+      const entries = Array.isArray(value) ? value.map(child => ['', child] as const) : Object.entries(value);
+      for (const [key, child] of entries) {
+        if (!Array.isArray(value)) {
+          keyCount++;
+          if (key.length === 0 || key.length > ORDER_METADATA_LIMITS.maxKeyLength) {
+            return `Metadata keys must be 1 to ${ORDER_METADATA_LIMITS.maxKeyLength} characters`;
+          }
+        }
+        const problem = visit(child, depth + 1);
+        if (problem) return problem;
+      }
+
+      return keyCount > ORDER_METADATA_LIMITS.maxKeys
+        ? `Metadata may have at most ${ORDER_METADATA_LIMITS.maxKeys} keys`
+        : null;
+    };
+
+    return visit(metadata, 1);
+  },
+
+  /**
+   * Keep only known shipping address fields from untrusted input
+   */
+  sanitizeShippingAddress(input: any): ShippingAddress {
+    return {
+      firstName: input.firstName,
+      lastName: input.lastName,
+      ...(input.company && { company: input.company }),
+      addressLine1: input.addressLine1,
+      ...(input.addressLine2 && { addressLine2: input.addressLine2 }),
+      city: input.city,
+      state: input.state,
+      postalCode: input.postalCode,
+      country: String(input.country).toUpperCase(),
+      ...(input.phoneNumber && { phoneNumber: input.phoneNumber })
+    };
   }
 };
 
+// Revenue in one currency; amounts in different currencies are never added together
+export interface CurrencyRevenue {
+  currency: string;
+  totalRevenue: Money;
+  revenueOrders: number;
+  averageOrderValue: Money;
+}
+
 // Order summary for analytics
 export interface OrderSummary {
   totalOrders: number;
-  totalRevenue: number;
-  averageOrderValue: number;
+  revenueByCurrency: CurrencyRevenue[];
   ordersByStatus: Record<OrderStatus, number>;
   ordersByPaymentStatus: Record<PaymentStatus, number>;
 }
@@ -0,0 +1,70 @@
+// Product catalog models
+import type { Money } from './Money.js';
+
+// Product variant (size, colour, ...) sold under the parent SKU
+export interface ProductVariant {
+  code: string;
+  name: string;
+  // Overrides the product unit price when set
+  unitPrice?: Money;
+  active: boolean;
+}
+
+// Variant as stored in products.variants: unitPrice in bare minor units of CATALOG_CURRENCY
+export type StoredProductVariant = Omit<ProductVariant, 'unitPrice'> & { unitPrice?: number };
+
+// Catalog product - the price authority for order items; prices are in CATALOG_CURRENCY
+export interface Product {
+  id: string;
+  sku: string;
+  name: string;
+  description?: string;
+  unitPrice: Money;
+  active: boolean;
+  variants: ProductVariant[];
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Create product input interface
+export interface CreateProductInput {
+  sku: string;
+  name: string;
+  description?: string;
+  unitPrice: Money;
+  active?: boolean;
+  variants?: ProductVariant[];
+}
+
+// Update product input interface
+export interface UpdateProductInput {
+  name?: string;
+  description?: string;
+  unitPrice?: Money;
+  active?: boolean;
+  variants?: ProductVariant[];
+}
+
+// Product query filters
+export interface ProductFilters {
+  active?: boolean;
+  q?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export const ProductHelpers = {
+  /**
+   * Resolve the unit price for a product, taking a variant override into account
+   */
+  unitPriceFor(product: Product, variant?: ProductVariant): Money {
+    return variant?.unitPrice ?? product.unitPrice;
+  },
+
+  /**
+   * Find an active variant by code
+   */
+  findActiveVariant(product: Product, code: string): ProductVariant | undefined {
+    return product.variants.find(variant => variant.code === code && variant.active);
+  }
+};
@@ -0,0 +1,82 @@
+// Return (RMA) models
+import type { Money } from './Money.js';
+
+// Return status enumeration
+export enum ReturnStatus {
+  REQUESTED = 'REQUESTED',
+  APPROVED = 'APPROVED',
+  REJECTED = 'REJECTED',
+  RECEIVED = 'RECEIVED',
+  REFUNDED = 'REFUNDED'
+}
+
+// Which step each status can move to (REJECTED and REFUNDED are final)
+export const RETURN_TRANSITIONS: Record<ReturnStatus, ReturnStatus[]> = {
+  [ReturnStatus.REQUESTED]: [ReturnStatus.APPROVED, ReturnStatus.REJECTED],
+  [ReturnStatus.APPROVED]: [ReturnStatus.RECEIVED],
+  [ReturnStatus.RECEIVED]: [ReturnStatus.REFUNDED],
+  [ReturnStatus.REJECTED]: [],
+  [ReturnStatus.REFUNDED]: []
+};
+
+// Returned order line; unitPrice is snapshotted from the order when the return is opened
+export interface ReturnItem {
+  sku: string;
+  variant?: string;
+  quantity: number;
+  unitPrice: Money;
+  restocked?: boolean;
+}
+
+// Line as stored in returns.items: unitPrice in bare minor units of the return's currency
+export type StoredReturnItem = Omit<ReturnItem, 'unitPrice'> & { unitPrice: number };
+
+// Who moved a return along: the customer opens it, admins handle the rest
+export interface ReturnActor {
+  type: 'user' | 'admin';
+  id: string;
+}
+
+// One step of a return's audit trail
+export interface ReturnEvent {
+  id: string;
+  fromStatus: ReturnStatus | null;
+  toStatus: ReturnStatus;
+  actor: ReturnActor;
+  note?: string;
+  created_at: Date;
+}
+
+// Return request interface
+export interface ReturnRequest {
+  id: string;
+  rmaNumber: string;
+  order_id: string;
+  user_id: string;
+  status: ReturnStatus;
+  reason: string;
+  items: ReturnItem[];
+  currency: string;
+  refundAmount: Money;
+  refundReference?: string;
+  version: number;
+  events: ReturnEvent[];
+  created_at: Date;
+  updated_at: Date;
+  approvedAt?: Date;
+  receivedAt?: Date;
+  refundedAt?: Date;
+}
+
+// Customer input for opening a return
+export interface CreateReturnInput {
+  reason: string;
+  items: { sku: string; variant?: string; quantity: number }[];
+}
+
+// Per-line restock decision when goods arrive back; lines not listed are restocked
+export interface ReturnReceiptLine {
+  sku: string;
+  variant?: string;
+  restock: boolean;
+}
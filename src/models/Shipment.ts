@@ -0,0 +1,98 @@
+// Shipment models
+
+// Shipment status enumeration (carrier-reported)
+export enum ShipmentStatus {
+  LABEL_CREATED = 'LABEL_CREATED',
+  IN_TRANSIT = 'IN_TRANSIT',
+  OUT_FOR_DELIVERY = 'OUT_FOR_DELIVERY',
+  DELIVERED = 'DELIVERED',
+  EXCEPTION = 'EXCEPTION'
+}
+
+// Statuses that mean the parcel has left the warehouse
+export const DISPATCHED_SHIPMENT_STATUSES: ShipmentStatus[] = [
+  ShipmentStatus.IN_TRANSIT,
+  ShipmentStatus.OUT_FOR_DELIVERY,
+  ShipmentStatus.DELIVERED
+];
+
+// Order line (or part of one) packed into a shipment
+export interface ShipmentItem {
+  sku: string;
+  variant?: string;
+  quantity: number;
+}
+
+// One entry of a shipment's tracking timeline
+export interface TrackingEvent {
+  id: string;
+  eventId: string;
+  status: ShipmentStatus;
+  description?: string;
+  location?: string;
+  occurredAt: Date;
+  created_at: Date;
+}
+
+// Shipment interface
+export interface Shipment {
+  id: string;
+  order_id: string;
+  carrier: string;
+  trackingNumber: string;
+  status: ShipmentStatus;
+  items: ShipmentItem[];
+  events: TrackingEvent[];
+  shippedAt?: Date;
+  deliveredAt?: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Create shipment input interface; omitted items mean "everything not yet shipped"
+export interface CreateShipmentInput {
+  carrier: string;
+  trackingNumber: string;
+  items?: ShipmentItem[];
+}
+
+// Fulfilment of one order line, in units
+export interface LineFulfilment {
+  sku: string;
+  variant?: string;
+  productName?: string;
+  ordered: number;
+  allocated: number;   // packed into any shipment
+  shipped: number;     // in shipments the carrier has dispatched
+  delivered: number;
+  outstanding: number; // ordered - shipped
+}
+
+// Fulfilment state of a whole order, derived from its lines
+export type FulfilmentState = 'UNFULFILLED' | 'PARTIALLY_SHIPPED' | 'SHIPPED' | 'DELIVERED';
+
+export interface OrderFulfilment {
+  order_id: string;
+  state: FulfilmentState;
+  lines: LineFulfilment[];
+}
+
+// Order with lines still to ship, for the outstanding-items report
+export interface OutstandingOrder {
+  order_id: string;
+  orderNumber: string | null;
+  status: string;
+  created_at: Date;
+  lines: Pick<LineFulfilment, 'sku' | 'variant' | 'ordered' | 'shipped' | 'outstanding'>[];
+}
+
+// Tracking event as delivered by a carrier webhook
+export interface CarrierTrackingUpdate {
+  carrier: string;
+  trackingNumber: string;
+  eventId: string;
+  status: ShipmentStatus;
+  description?: string;
+  location?: string;
+  occurredAt: Date;
+}
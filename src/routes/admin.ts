@@ -0,0 +1,112 @@
+import { Router } from 'express';
+import { AnalyticsService } from '../services/analyticsService.js';
+import { ShipmentService } from '../services/shipmentService.js';
+import { authenticate, authorize, type AuthenticatedRequest } from '../middleware/auth.js';
+import { OrderHelpers, UserRole } from '../models/Order.js';
+import type { AnalyticsInterval } from '../models/Analytics.js';
+import { query, validationResult } from 'express-validator';
+import { sql } from '../config/database.ts';
+
+const router = Router();
+
+// Default reporting window when no range is given
+const DEFAULT_RANGE_DAYS = 30;
+
+const orderAnalyticsValidation = [
+  query('from').optional().isISO8601().withMessage('from must be an ISO 8601 date'),
+  query('to').optional().isISO8601().withMessage('to must be an ISO 8601 date'),
+  query('interval').optional().isIn(['day', 'week']).withMessage('interval must be day or week'),
+  query('top').optional().isInt({ min: 1, max: 100 }).withMessage('top must be between 1 and 100'),
+  query('currency').optional().isString()
+    .custom(value => OrderHelpers.isValidCurrency(String(value).toUpperCase()))
+    .withMessage('currency must be an ISO 4217 code')
+];
+
+const outstandingItemsValidation = [
+  query('page').optional().isInt({ min: 1 }),
+  query('limit').optional().isInt({ min: 1, max: 100 })
+];
+
+// Initialize services
+let analyticsService: AnalyticsService;
+let shipmentService: ShipmentService;
+
+export const initializeAdminRoutes = (dbClient: typeof sql) => {
+  analyticsService = new AnalyticsService(dbClient);
+  shipmentService = new ShipmentService(dbClient);
+  return router;
+};
+
+// GET /admin/analytics/orders - Order summary, time series and top SKUs for a date range, per currency (ADMIN only)
+router.get('/analytics/orders',
+  authenticate,
+  authorize([UserRole.ADMIN]),
+  orderAnalyticsValidation,
+  async (req: AuthenticatedRequest, res: any) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const { from, to, interval = 'day', top = '10', currency } = req.query;
+      const rangeEnd = to ? new Date(to as string) : new Date();
+      const rangeStart = from
+        ? new Date(from as string)
+        : new Date(rangeEnd.getTime() - DEFAULT_RANGE_DAYS * 24 * 60 * 60 * 1000);
+
+      if (rangeStart >= rangeEnd) {
+        return res.status(400).json({ error: 'from must be before to' });
+      }
+
+      const analytics = await analyticsService.getOrderAnalytics({
+        from: rangeStart,
+        to: rangeEnd,
+        interval: interval as AnalyticsInterval,
+        topSkuLimit: parseInt(top as string),
+        ...(currency && { currency: String(currency).toUpperCase() })
+      });
+
+      res.json(analytics);
+    } catch (error) {
+      console.error('Order analytics error:', error);
+      res.status(500).json({ error: 'Failed to compute order analytics' });
+    }
+  }
+);
+
+// GET /admin/fulfilment/outstanding - Paid orders with units still to ship, oldest first (ADMIN only)
+router.get('/fulfilment/outstanding',
+  authenticate,
+  authorize([UserRole.ADMIN]),
+  outstandingItemsValidation,
+  async (req: AuthenticatedRequest, res: any) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const { page = '1', limit = '20' } = req.query;
+      const result = await shipmentService.getOutstandingItems(
+        parseInt(limit as string),
+        (parseInt(page as string) - 1) * parseInt(limit as string)
+      );
+
+      res.json({
+        orders: result.orders,
+        pagination: {
+          page: parseInt(page as string),
+          limit: parseInt(limit as string),
+          total: result.total,
+          pages: Math.ceil(result.total / parseInt(limit as string))
+        }
+      });
+    } catch (error) {
+      console.error('Outstanding items error:', error);
+      res.status(500).json({ error: 'Failed to fetch outstanding items' });
+    }
+  }
+);
+
+export { router as adminRoutes };
@@ -0,0 +1,96 @@
+import { Router } from 'express';
+import { InventoryService } from '../services/inventoryService.js';
+import { authenticate, authorize, type AuthenticatedRequest } from '../middleware/auth.js';
+import { UserRole } from '../models/Order.js';
+import { body, param, validationResult } from 'express-validator';
+import { sql } from '../config/database.ts';
+
+const router = Router();
+
+const adjustStockValidation = [
+  param('sku').isString().notEmpty(),
+  body('delta').isInt().not().equals('0').withMessage('Delta must be a non-zero integer'),
+  body('reason').optional().isString().isLength({ max: 500 })
+];
+
+// Initialize service
+let inventoryService: InventoryService;
+
+export const initializeInventoryRoutes = (dbClient: typeof sql) => {
+  inventoryService = new InventoryService(dbClient);
+  return router;
+};
+
+// GET /inventory - Stock levels with reserved vs available counts (ADMIN only)
+router.get('/',
+  authenticate,
+  authorize([UserRole.ADMIN]),
+  async (req: AuthenticatedRequest, res: any) => {
+    try {
+      const stock = await inventoryService.getStockLevels();
+      res.json({ stock });
+    } catch (error) {
+      console.error('List stock error:', error);
+      res.status(500).json({ error: 'Failed to fetch stock levels' });
+    }
+  }
+);
+
+// GET /inventory/:sku - Stock level for one SKU (ADMIN only)
+router.get('/:sku',
+  authenticate,
+  authorize([UserRole.ADMIN]),
+  async (req: AuthenticatedRequest, res: any) => {
+    try {
+      const [level] = await inventoryService.getStockLevels([req.params.sku!]);
+
+      if (!level) {
+        return res.status(404).json({ error: 'SKU is not stock-tracked' });
+      }
+
+      res.json(level);
+    } catch (error) {
+      console.error('Get stock error:', error);
+      res.status(500).json({ error: 'Failed to fetch stock level' });
+    }
+  }
+);
+
+// POST /inventory/:sku/adjust - Add or remove stock (ADMIN only)
+router.post('/:sku/adjust',
+  authenticate,
+  authorize([UserRole.ADMIN]),
+  adjustStockValidation,
+  async (req: AuthenticatedRequest, res: any) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const { delta, reason } = req.body;
+      const level = await inventoryService.adjustStock({
+        sku: req.params.sku!,
+        delta: parseInt(delta),
+        actorId: String(req.user!.id),
+        ...(reason && { reason })
+      });
+
+      res.json(level);
+    } catch (error: any) {
+      console.error('Adjust stock error:', error);
+
+      if (error.message === 'Product not found') {
+        return res.status(404).json({ error: error.message });
+      }
+
+      if (error.message.includes('less stock than is reserved')) {
+        return res.status(409).json({ error: error.message });
+      }
+
+      res.status(500).json({ error: 'Failed to adjust stock' });
+    }
+  }
+);
+
+export { router as inventoryRoutes };
@@ -1,12 +1,39 @@
 import { Router } from 'express';
 import { OrderService } from '../services/orderService.js';
 import { authenticate, authorize, type AuthenticatedRequest } from '../middleware/auth.js';
-import { UserRole, OrderStatus } from '../models/Order.js';
+import {
+  UserRole,
+  OrderStatus,
+  OrderHelpers,
+  PaymentStatus,
+  ShippingMethod,
+  ORDER_SORT_FIELDS,
+  OrderSearchMode,
+  ORDER_METADATA_LIMITS,
+  SUPPORTED_CURRENCIES,
+  UnsupportedCurrencyError,
+  type OrderListQuery,
+  type OrderSortField,
+  type OrderSortKey
+} from '../models/Order.js';
 import { orderCreationLimiter } from '../middleware/ratelimiter.js';
 import { body, query, param, validationResult } from 'express-validator';
 import { cacheService } from '../services/cacheService.js';
 import { sql } from '../config/database.ts';
 import { v4 as uuidv4 } from 'uuid';
+import { InvalidStatusTransitionError } from '../services/orderStateMachine.js';
+import { CatalogValidationError } from '../services/productService.js';
+import { InsufficientStockError } from '../services/inventoryService.js';
+import { InvalidCursorError } from '../services/orderQueryBuilder.js';
+import { ShipmentItemsError, ShipmentService } from '../services/shipmentService.js';
+import { ReturnItemsError, ReturnService } from '../services/returnService.js';
+import { OrderCommentService } from '../services/orderCommentService.js';
+import { createOrderExporter, type ExportFormat, type ExportRowMode } from '../services/orderExport.js';
+import { InvoiceService } from '../services/invoiceService.js';
+import { INVOICE_CONTENT_TYPES, renderInvoiceHtml, renderInvoicePdf } from '../services/invoiceRenderer.js';
+import type { Invoice, InvoiceFormat } from '../models/Invoice.js';
+import { Money } from '../models/Money.js';
+import { once } from 'node:events';
 
 
 const router = Router();
@@ -20,6 +47,50 @@ const router = Router();
 //   body('client_token').isString().notEmpty().withMessage('Client token is required')
 // ];
 
+// Shipping address fields, validated only when the address object is present
+const shippingAddressValidation = (required: boolean) => {
+  const whenPresent = () => body('shippingAddress').exists();
+
+  return [
+    required
+      ? body('shippingAddress').isObject().withMessage('Shipping address is required')
+      : body('shippingAddress').optional().isObject().withMessage('Shipping address must be an object'),
+
+    body('shippingAddress.firstName').if(whenPresent()).isString().trim().isLength({ min: 1, max: 100 })
+      .withMessage('First name is required'),
+    body('shippingAddress.lastName').if(whenPresent()).isString().trim().isLength({ min: 1, max: 100 })
+      .withMessage('Last name is required'),
+    body('shippingAddress.company').if(whenPresent()).optional().isString().trim().isLength({ max: 100 }),
+    body('shippingAddress.addressLine1').if(whenPresent()).isString().trim().isLength({ min: 1, max: 200 })
+      .withMessage('Address line 1 is required'),
+    body('shippingAddress.addressLine2').if(whenPresent()).optional().isString().trim().isLength({ max: 200 }),
+    body('shippingAddress.city').if(whenPresent()).isString().trim().isLength({ min: 1, max: 100 })
+      .withMessage('City is required'),
+    body('shippingAddress.state').if(whenPresent()).isString().trim().isLength({ min: 1, max: 100 })
+      .withMessage('State is required'),
+    body('shippingAddress.country').if(whenPresent()).toUpperCase().isISO31661Alpha2()
+      .withMessage('Country must be an ISO 3166-1 alpha-2 code'),
+    body('shippingAddress.postalCode').if(whenPresent()).isString().trim()
+      .custom((postalCode: string, { req }) => {
+        const country = String(req.body.shippingAddress?.country ?? '');
+        if (!OrderHelpers.isValidPostalCode(country, postalCode)) {
+          throw new Error(`Invalid postal code for country ${country}`);
+        }
+        return true;
+      }),
+    body('shippingAddress.phoneNumber').if(whenPresent()).optional().isString().trim().isLength({ max: 30 })
+  ];
+};
+
+// Metadata must stay within ORDER_METADATA_LIMITS
+const metadataValidator = (value: unknown) => {
+  const problem = OrderHelpers.findMetadataProblem(value);
+  if (problem) {
+    throw new Error(problem);
+  }
+  return true;
+};
+
 const createOrderValidation = [
   body('items')
     .isArray({ min: 1 })
@@ -34,10 +105,42 @@ const createOrderValidation = [
     .isInt({ min: 1 })
     .withMessage('Quantity must be positive'),
 
+  // Prices come from the product catalog; a client-supplied price is ignored
   body('items.*.price')
+    .optional()
     .isInt({ min: 0 })
     .withMessage('Price must be non-negative'),
 
+  body('items.*.variant')
+    .optional()
+    .isString()
+    .withMessage('Variant must be a string'),
+
+  ...shippingAddressValidation(false),
+
+  body('shippingMethod')
+    .optional()
+    .isIn(Object.values(ShippingMethod))
+    .withMessage('Invalid shipping method'),
+
+  body('currency')
+    .optional()
+    .isString()
+    .toUpperCase()
+    .custom(value => OrderHelpers.isSupportedCurrency(value))
+    .withMessage(`Currency must be one of: ${SUPPORTED_CURRENCIES.join(', ')}`),
+
+  body('notes')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage('Notes must be at most 1000 characters'),
+
+  body('metadata')
+    .optional()
+    .custom(metadataValidator),
+
   // client_token is optional
   body('client_token')
     .optional()
@@ -54,23 +157,240 @@ const createOrderValidation = [
 ];
 
 const updateStatusValidation = [
-  param('id').isUUID().withMessage('Invalid order ID'),
-  body('status').isIn(['PENDING', 'PAID', 'CANCELLED']).withMessage('Invalid status'),
+  param('id').isInt({ min: 1 }).withMessage('Invalid order ID').toInt(),
+  body('status').isIn(Object.values(OrderStatus)).withMessage('Invalid status'),
+  body('version').optional().isInt().withMessage('Version must be an integer'),
+  body('reason').optional().isString().isLength({ max: 500 }).withMessage('Reason must be a string of at most 500 characters')
+];
+
+// Upper bound on one bulk request; entries run sequentially
+const BULK_STATUS_MAX_ENTRIES = 500;
+
+const bulkStatusValidation = [
+  body('updates').isArray({ min: 1, max: BULK_STATUS_MAX_ENTRIES })
+    .withMessage(`Updates must be an array of 1 to ${BULK_STATUS_MAX_ENTRIES} entries`),
+  body('updates.*.id').isInt({ min: 1 }).withMessage('Invalid order ID').toInt(),
+  body('updates.*.status').isIn(Object.values(OrderStatus)).withMessage('Invalid status'),
+  body('updates.*.version').isInt().withMessage('Version must be an integer').toInt(),
+  body('reason').optional().isString().isLength({ max: 500 }).withMessage('Reason must be a string of at most 500 characters')
+];
+
+const createShipmentValidation = [
+  param('id').isInt({ min: 1 }).withMessage('Invalid order ID').toInt(),
+  body('carrier').isString().trim().isLength({ min: 1, max: 50 }).withMessage('Carrier is required'),
+  body('trackingNumber').isString().trim().isLength({ min: 1, max: 100 }).withMessage('Tracking number is required'),
+  body('items').optional().isArray({ min: 1 }).withMessage('Items must be a non-empty array'),
+  body('items.*.sku').isString().notEmpty().withMessage('SKU is required'),
+  body('items.*.variant').optional().isString(),
+  body('items.*.quantity').isInt({ min: 1 }).withMessage('Quantity must be at least 1').toInt(),
+  body('version').optional().isInt().withMessage('Version must be an integer')
+];
+
+// Roles that may read and write the internal comment thread
+const STAFF_ROLES = [UserRole.ADMIN, UserRole.SUPER_ADMIN];
+
+const addCommentValidation = [
+  param('id').isInt({ min: 1 }).withMessage('Invalid order ID').toInt(),
+  body('body').isString().trim().isLength({ min: 1, max: 5000 }).withMessage('Comment must be 1 to 5000 characters')
+];
+
+const orderIdValidation = [
+  param('id').isInt({ min: 1 }).withMessage('Invalid order ID').toInt()
+];
+
+const invoiceValidation = [
+  param('id').isInt({ min: 1 }).withMessage('Invalid order ID').toInt(),
+  query('format').optional().isIn(['json', 'html', 'pdf']).withMessage('format must be json, html or pdf')
+];
+
+const createReturnValidation = [
+  param('id').isInt({ min: 1 }).withMessage('Invalid order ID').toInt(),
+  body('reason').isString().trim().isLength({ min: 1, max: 1000 }).withMessage('Reason is required'),
+  body('items').isArray({ min: 1 }).withMessage('Items must be a non-empty array'),
+  body('items.*.sku').isString().notEmpty().withMessage('SKU is required'),
+  body('items.*.variant').optional().isString(),
+  body('items.*.quantity').isInt({ min: 1 }).withMessage('Quantity must be at least 1').toInt()
+];
+
+const updateItemsValidation = [
+  param('id').isInt({ min: 1 }).withMessage('Invalid order ID').toInt(),
+  body('changes').isArray({ min: 1 }).withMessage('Changes must be a non-empty array'),
+  body('changes.*.sku').isString().notEmpty().withMessage('SKU is required'),
+  body('changes.*.quantity').isInt({ min: 0 }).withMessage('Quantity must be zero (remove) or positive'),
+  body('changes.*.variant').optional().isString().withMessage('Variant must be a string'),
+  body('version').optional().isInt().withMessage('Version must be an integer')
+];
+
+const updateShippingAddressValidation = [
+  param('id').isInt({ min: 1 }).withMessage('Invalid order ID').toInt(),
+  ...shippingAddressValidation(true),
   body('version').optional().isInt().withMessage('Version must be an integer')
 ];
 
+const updateMetadataValidation = [
+  param('id').isInt({ min: 1 }).withMessage('Invalid order ID').toInt(),
+  body('metadata').custom(metadataValidator),
+  body('version').optional().isInt().withMessage('Version must be an integer')
+];
+
+const cancelOrderValidation = [
+  param('id').isInt({ min: 1 }).withMessage('Invalid order ID').toInt(),
+  body('reason').isString().trim().isLength({ min: 1, max: 500 }).withMessage('Cancellation reason is required'),
+  body('version').optional().isInt().withMessage('Version must be an integer')
+];
+
+// Parse ?sort=-total_amount,order_number into sort keys; a leading '-' means descending
+const parseSortParam = (value: string): OrderSortKey[] => {
+  const keys = value.split(',').map(token => token.trim()).filter(Boolean).map(token => ({
+    field: token.replace(/^[-+]/, '') as OrderSortField,
+    direction: token.startsWith('-') ? 'DESC' as const : 'ASC' as const
+  }));
+
+  const unknown = keys.filter(key => !ORDER_SORT_FIELDS.includes(key.field));
+  if (unknown.length > 0) {
+    throw new Error(`Cannot sort by ${unknown.map(key => key.field).join(', ')}; allowed: ${ORDER_SORT_FIELDS.join(', ')}`);
+  }
+
+  if (new Set(keys.map(key => key.field)).size !== keys.length) {
+    throw new Error('Each sort field may only appear once');
+  }
+
+  return keys;
+};
+
+// Most metadata pairs one listing may filter on
+const METADATA_FILTER_MAX_KEYS = 10;
+
+// Parse ?metadata[channel]=pos into {channel: 'pos'}, whether the query parser kept the key flat or nested it
+const parseMetadataFilter = (params: Record<string, any>): Record<string, string> => {
+  const pairs: [string, unknown][] = Object.entries(params)
+    .map(([key, value]) => [/^metadata\[([^\]]+)\]$/.exec(key)?.[1], value] as const)
+    .filter((pair): pair is [string, unknown] => pair[0] !== undefined);
+
+  if (params.metadata !== undefined) {
+    if (typeof params.metadata !== 'object' || params.metadata === null || Array.isArray(params.metadata)) {
+      throw new Error('metadata filters take the form metadata[key]=value');
+    }
+    pairs.push(...Object.entries(params.metadata));
+  }
+
+  if (pairs.length > METADATA_FILTER_MAX_KEYS) {
+    throw new Error(`At most ${METADATA_FILTER_MAX_KEYS} metadata filters are allowed`);
+  }
+
+  for (const [key, value] of pairs) {
+    if (typeof value !== 'string' || value.length > 200 || key.length > ORDER_METADATA_LIMITS.maxKeyLength) {
+      throw new Error(`Invalid metadata filter for ${key}`);
+    }
+  }
+
+  return Object.fromEntries(pairs) as Record<string, string>;
+};
+
+// Filters shared by the listing and the export
+const orderFilterValidation = [
+  query('status').optional().isIn(Object.values(OrderStatus)),
+  query('paymentStatus').optional().isIn(Object.values(PaymentStatus)),
+  query('currency').optional().isString()
+    .custom(value => OrderHelpers.isValidCurrency(String(value).toUpperCase()))
+    .withMessage('currency must be an ISO 4217 code'),
+  // Amounts in different currencies are not comparable
+  query(['minAmount', 'maxAmount']).optional().custom((_, { req }) => Boolean(req.query?.currency))
+    .withMessage('Amount filters require a currency'),
+  query('dateFrom').optional().isISO8601().withMessage('dateFrom must be an ISO 8601 date'),
+  query('dateTo').optional().isISO8601().withMessage('dateTo must be an ISO 8601 date'),
+  // Major units of the filtered currency, e.g. 1500.50
+  query('minAmount').optional().isFloat({ min: 0 }).withMessage('minAmount must be a non-negative amount'),
+  query('maxAmount').optional().isFloat({ min: 0 }).withMessage('maxAmount must be a non-negative amount'),
+  query('user_id').optional().isString(),
+  query('q').optional().isString().trim().isLength({ min: 1, max: 200 }),
+  query('search_by').optional().isIn(Object.values(OrderSearchMode))
+    .withMessage(`search_by must be one of ${Object.values(OrderSearchMode).join(', ')}`),
+  query('sort').optional().isString().custom(value => {
+    if (parseSortParam(value).length === 0) {
+      throw new Error('sort must name at least one field');
+    }
+    return true;
+  }),
+  query().custom(params => {
+    parseMetadataFilter(params);
+    return true;
+  })
+];
+
 const listOrdersValidation = [
-  query('status').optional().isIn(['PENDING', 'PAID', 'CANCELLED']),
+  ...orderFilterValidation,
   query('page').optional().isInt({ min: 1 }),
   query('limit').optional().isInt({ min: 1, max: 100 }),
-  query('q').optional().isString()
+  query('mode').optional().isIn(['offset', 'cursor']).withMessage('mode must be offset or cursor'),
+  query('cursor').optional().isString().isLength({ min: 1, max: 500 }),
+  query('include_total').optional().isBoolean()
+];
+
+const exportOrdersValidation = [
+  ...orderFilterValidation,
+  query('format').optional().isIn(['csv', 'ndjson']).withMessage('format must be csv or ndjson'),
+  query('rows').optional().isIn(['order', 'item']).withMessage('rows must be order or item')
 ];
 
+// Build listing filters from a validated query string
+const parseOrderFilters = (params: Record<string, any>): OrderListQuery => {
+  const {
+    status, paymentStatus, currency, dateFrom, dateTo, minAmount, maxAmount, user_id,
+    q: search, search_by = OrderSearchMode.SKU, sort
+  } = params;
+  const metadata = parseMetadataFilter(params);
+
+  return {
+    ...(status && { status: status as OrderStatus }),
+    ...(paymentStatus && { paymentStatus: paymentStatus as PaymentStatus }),
+    ...(currency && { currency: String(currency).toUpperCase() }),
+    ...(dateFrom && { dateFrom: new Date(dateFrom) }),
+    ...(dateTo && { dateTo: new Date(dateTo) }),
+    // Stored totals are minor units of the currency the validator insists on
+    ...(minAmount && { minAmount: Money.fromMajor(parseFloat(minAmount), String(currency).toUpperCase()).amount }),
+    ...(maxAmount && { maxAmount: Money.fromMajor(parseFloat(maxAmount), String(currency).toUpperCase()).amount }),
+    ...(user_id && { user_id: String(user_id) }),
+    ...(search && { search: { term: String(search), mode: search_by as OrderSearchMode } }),
+    ...(sort && { sort: parseSortParam(String(sort)) }),
+    ...(Object.keys(metadata).length > 0 && { metadata })
+  };
+};
+
+// Send an invoice or credit note as JSON, HTML or a PDF download
+const sendInvoice = (req: AuthenticatedRequest, res: any, invoice: Invoice) => {
+  // ?format= wins over the Accept header; JSON is the default
+  const accepted = req.accepts(['application/json', 'text/html', 'application/pdf']);
+  const format: InvoiceFormat = (req.query.format as InvoiceFormat | undefined)
+    ?? (accepted === 'text/html' ? 'html' : accepted === 'application/pdf' ? 'pdf' : 'json');
+
+  if (format === 'json') {
+    return res.json(invoice);
+  }
+
+  res.setHeader('Content-Type', INVOICE_CONTENT_TYPES[format]);
+  if (format === 'html') {
+    return res.send(renderInvoiceHtml(invoice));
+  }
+
+  res.setHeader('Content-Disposition', `attachment; filename="${invoice.number}.pdf"`);
+  res.send(renderInvoicePdf(invoice));
+};
+
+
 // Initialize service
 let orderService: OrderService;
+let shipmentService: ShipmentService;
+let returnService: ReturnService;
+let commentService: OrderCommentService;
+let invoiceService: InvoiceService;
 
 export const initializeOrderRoutes = (dbClient: typeof sql) => {
   orderService = new OrderService(dbClient);
+  shipmentService = new ShipmentService(dbClient);
+  returnService = new ReturnService(dbClient);
+  commentService = new OrderCommentService(dbClient);
+  invoiceService = new InvoiceService(dbClient);
   return router;
 };
 
@@ -86,11 +406,39 @@ router.post('/',
         return res.status(400).json({ errors: errors.array() });
       }
 
-      const { items, client_token } = req.body;
-      const order = await orderService.createOrder(req.user!.id, items, client_token);
+      const { client_token, shippingAddress, shippingMethod, currency, notes, metadata } = req.body;
+      const items = req.body.items.map((item: any) => ({
+        sku: item.sku,
+        quantity: Number(item.quantity),
+        ...(item.variant && { variant: item.variant })
+      }));
+      const order = await orderService.createOrder(req.user!.id, items, client_token, {
+        ...(shippingAddress && { shippingAddress: OrderHelpers.sanitizeShippingAddress(shippingAddress) }),
+        ...(shippingMethod && { shippingMethod }),
+        ...(currency && { currency }),
+        ...(notes && { notes }),
+        ...(metadata && { metadata })
+      });
       
       res.status(201).json(order);
     } catch (error: any) {
+      if (error instanceof CatalogValidationError) {
+        return res.status(422).json({
+          error: error.message,
+          unknown_skus: error.unknownSkus,
+          inactive_skus: error.inactiveSkus,
+          unknown_variants: error.unknownVariants
+        });
+      }
+
+      if (error instanceof UnsupportedCurrencyError) {
+        return res.status(422).json({ error: error.message, supported_currencies: SUPPORTED_CURRENCIES });
+      }
+
+      if (error instanceof InsufficientStockError) {
+        return res.status(409).json({ error: error.message, shortages: error.shortages });
+      }
+
       // Check for unique constraint violation (idempotency)
       if (error.message && error.message.includes('duplicate key') && error.message.includes('client_token')) {
         // Return existing order
@@ -122,39 +470,147 @@ router.get('/',
         return res.status(400).json({ errors: errors.array() });
       }
 
-      const { status, q: searchSku, page = '1', limit = '10' } = req.query;
+      const { page = '1', limit = '10', mode, cursor, include_total } = req.query;
+
+      // Passing a cursor implies cursor mode; offset paging stays the default for existing clients
+      const cursorMode = mode === 'cursor' || cursor !== undefined;
+      const includeTotal = include_total === undefined ? !cursorMode : include_total === 'true';
       
-      const result = await orderService.getOrders(
-        req.user!.id,
-        req.user!.role,
-        status as OrderStatus,
-        searchSku as string,
-        parseInt(page as string),
-        parseInt(limit as string)
-      );
+      // user_id is only honoured for admins; the service scopes everyone else to their own orders
+      const result = await orderService.getOrders(req.user!.id, req.user!.role, {
+        ...parseOrderFilters(req.query),
+        ...(cursorMode
+          ? { paginate: 'cursor' as const, ...(cursor && { cursor: cursor as string }) }
+          : { offset: (parseInt(page as string) - 1) * parseInt(limit as string) }),
+        limit: parseInt(limit as string),
+        includeTotal
+      });
+
+      if (cursorMode) {
+        return res.json({
+          orders: result.orders,
+          pagination: {
+            mode: 'cursor',
+            limit: parseInt(limit as string),
+            next_cursor: result.nextCursor ?? null,
+            prev_cursor: result.prevCursor ?? null,
+            ...(result.total !== undefined && { total: result.total })
+          }
+        });
+      }
 
       res.json({
         orders: result.orders,
         pagination: {
           page: parseInt(page as string),
           limit: parseInt(limit as string),
-          total: result.total,
-          pages: Math.ceil(result.total / parseInt(limit as string))
+          ...(result.total !== undefined && {
+            total: result.total,
+            pages: Math.ceil(result.total / parseInt(limit as string))
+          })
         }
       });
     } catch (error) {
       console.error('List orders error:', error);
+
+      if (error instanceof InvalidCursorError) {
+        return res.status(400).json({ error: error.message });
+      }
+
       res.status(500).json({ error: 'Failed to fetch orders' });
     }
   }
 );
 
+// GET /orders/export - Stream every matching order as CSV or NDJSON (ADMIN only)
+router.get('/export',
+  authenticate,
+  authorize([UserRole.ADMIN]),
+  exportOrdersValidation,
+  async (req: AuthenticatedRequest, res: any) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    // ?format= wins over the Accept header; CSV is the default
+    const format: ExportFormat = (req.query.format as ExportFormat | undefined)
+      ?? (req.accepts(['text/csv', 'application/x-ndjson']) === 'application/x-ndjson' ? 'ndjson' : 'csv');
+    const exporter = createOrderExporter(format, (req.query.rows as ExportRowMode | undefined) ?? 'order');
+
+    let aborted = false;
+    res.on('close', () => { aborted = true; });
+
+    try {
+      const batches = orderService.streamOrders(req.user!.id, req.user!.role, parseOrderFilters(req.query));
+
+      res.status(200);
+      res.setHeader('Content-Type', exporter.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="orders-${new Date().toISOString().slice(0, 10)}.${format}"`);
+      res.write(exporter.header());
+
+      for await (const orders of batches) {
+        if (aborted) break;
+
+        // Respect backpressure so a slow client does not make us buffer the whole export
+        if (!res.write(exporter.serialize(orders))) {
+          await Promise.race([once(res, 'drain'), once(res, 'close')]);
+        }
+      }
+
+      res.end();
+    } catch (error) {
+      console.error('Export orders error:', error);
+
+      if (!res.headersSent) {
+        if (error instanceof InvalidCursorError) {
+          return res.status(400).json({ error: error.message });
+        }
+        return res.status(500).json({ error: 'Failed to export orders' });
+      }
+
+      // Headers are gone; cut the stream so the client sees an incomplete download
+      res.destroy(error as Error);
+    }
+  }
+);
+
+// GET /orders/by-number/:orderNumber - Look up an order by its human-readable number
+router.get('/by-number/:orderNumber',
+  authenticate,
+  param('orderNumber').isString().isLength({ min: 1, max: 40 }),
+  async (req: AuthenticatedRequest, res: any) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const order = await orderService.getOrderByNumber(req.params.orderNumber!, req.user!.id, req.user!.role);
+
+      if (!order) {
+        return res.status(404).json({ error: 'Order not found' });
+      }
+
+      res.json(order);
+    } catch (error) {
+      console.error('Get order by number error:', error);
+      res.status(500).json({ error: 'Failed to fetch order' });
+    }
+  }
+);
+
 // GET /orders/:id - Get order details (with caching)
 router.get('/:id',
   authenticate,
-  param('id').isUUID(),
-  async (req: AuthenticatedRequest, res) => {
+  orderIdValidation,
+  async (req: AuthenticatedRequest, res: any) => {
     try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
       const { id } = req.params;
       const cacheKey = `order:${id}:${req.user!.role === 'ADMIN' ? 'admin' : req.user!.id}`;
       
@@ -162,8 +618,12 @@ router.get('/:id',
       let order = cacheService.get(cacheKey);
       
       if (!order) {
-        order = await orderService.getOrderById(id!, req.user!.id, req.user!.role);
-        if (order) {
+        const found = await orderService.getOrderById(id!, req.user!.id, req.user!.role);
+        if (found) {
+          // Tracking timeline, per-line fulfilment and returns for the customer
+          const shipments = await shipmentService.getShipmentsForOrder(id!);
+          const returns = await returnService.getReturnsForOrder(id!);
+          order = { ...found, shipments, fulfilment: shipmentService.buildFulfilment(found, shipments), returns };
           cacheService.set(cacheKey, order, 30000); // 30 seconds
         }
       }
@@ -180,6 +640,547 @@ router.get('/:id',
   }
 );
 
+// GET /orders/:id/history - Status change audit trail
+router.get('/:id/history',
+  authenticate,
+  orderIdValidation,
+  async (req: AuthenticatedRequest, res: any) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const { id } = req.params;
+
+      // Same RBAC as order details: owners and admins only
+      const order = await orderService.getOrderById(id!, req.user!.id, req.user!.role);
+      if (!order) {
+        return res.status(404).json({ error: 'Order not found' });
+      }
+
+      const history = await orderService.getStatusHistory(id!);
+
+      res.json({ order_id: order.id, status: order.status, history });
+    } catch (error) {
+      console.error('Get order history error:', error);
+      res.status(500).json({ error: 'Failed to fetch order history' });
+    }
+  }
+);
+
+// POST /orders/:id/shipments - Attach a shipment to an order (ADMIN only)
+router.post('/:id/shipments',
+  authenticate,
+  authorize([UserRole.ADMIN]),
+  createShipmentValidation,
+  async (req: AuthenticatedRequest, res: any) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const { carrier, trackingNumber, items, version } = req.body;
+
+      const shipment = await shipmentService.createShipment(req.params.id!, {
+        carrier,
+        trackingNumber,
+        ...(items && {
+          items: items.map((item: any) => ({
+            sku: item.sku,
+            quantity: item.quantity,
+            ...(item.variant && { variant: item.variant })
+          }))
+        })
+      }, version);
+
+      res.status(201).json(shipment);
+    } catch (error: any) {
+      console.error('Create shipment error:', error);
+
+      if (error instanceof ShipmentItemsError) {
+        return res.status(422).json({ error: error.message, details: error.problems });
+      }
+
+      if (error.message === 'Order not found') {
+        return res.status(404).json({ error: error.message });
+      }
+
+      if (error.message.startsWith('Shipments can only be created')) {
+        return res.status(422).json({ error: error.message });
+      }
+
+      if (error.message.includes('modified by another process') || error.message.includes('already in use')) {
+        return res.status(409).json({ error: error.message });
+      }
+
+      res.status(500).json({ error: 'Failed to create shipment' });
+    }
+  }
+);
+
+// GET /orders/:id/shipments - Shipments and tracking timeline (owner or ADMIN)
+router.get('/:id/shipments',
+  authenticate,
+  orderIdValidation,
+  async (req: AuthenticatedRequest, res: any) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const order = await orderService.getOrderById(req.params.id!, req.user!.id, req.user!.role);
+      if (!order) {
+        return res.status(404).json({ error: 'Order not found' });
+      }
+
+      const shipments = await shipmentService.getShipmentsForOrder(req.params.id!);
+      res.json({ shipments });
+    } catch (error) {
+      console.error('Get shipments error:', error);
+      res.status(500).json({ error: 'Failed to fetch shipments' });
+    }
+  }
+);
+
+// GET /orders/:id/fulfilment - Ordered, shipped and outstanding units per line (owner or ADMIN)
+router.get('/:id/fulfilment',
+  authenticate,
+  orderIdValidation,
+  async (req: AuthenticatedRequest, res: any) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const order = await orderService.getOrderById(req.params.id!, req.user!.id, req.user!.role);
+      if (!order) {
+        return res.status(404).json({ error: 'Order not found' });
+      }
+
+      const shipments = await shipmentService.getShipmentsForOrder(req.params.id!);
+      res.json(shipmentService.buildFulfilment(order, shipments));
+    } catch (error) {
+      console.error('Get fulfilment error:', error);
+      res.status(500).json({ error: 'Failed to fetch fulfilment' });
+    }
+  }
+);
+
+// GET /orders/:id/comments - Internal comment thread (ADMIN/SUPER_ADMIN only)
+router.get('/:id/comments',
+  authenticate,
+  authorize(STAFF_ROLES),
+  orderIdValidation,
+  async (req: AuthenticatedRequest, res: any) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      res.json({ comments: await commentService.getComments(req.params.id!) });
+    } catch (error) {
+      console.error('Get order comments error:', error);
+      res.status(500).json({ error: 'Failed to fetch comments' });
+    }
+  }
+);
+
+// POST /orders/:id/comments - Add an internal comment (ADMIN/SUPER_ADMIN only)
+router.post('/:id/comments',
+  authenticate,
+  authorize(STAFF_ROLES),
+  addCommentValidation,
+  async (req: AuthenticatedRequest, res: any) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const comment = await commentService.addComment(req.params.id!, String(req.user!.id), req.user!.role, req.body.body);
+      res.status(201).json(comment);
+    } catch (error: any) {
+      console.error('Add order comment error:', error);
+
+      if (error.message === 'Order not found') {
+        return res.status(404).json({ error: error.message });
+      }
+
+      res.status(500).json({ error: 'Failed to add comment' });
+    }
+  }
+);
+
+// POST /orders/:id/returns - Open a return for delivered items of own order
+router.post('/:id/returns',
+  authenticate,
+  createReturnValidation,
+  async (req: AuthenticatedRequest, res: any) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const { reason, items } = req.body;
+      const request = await returnService.createReturn(req.params.id!, req.user!.id, {
+        reason,
+        items: items.map((item: any) => ({
+          sku: item.sku,
+          quantity: item.quantity,
+          ...(item.variant && { variant: item.variant })
+        }))
+      });
+
+      res.status(201).json(request);
+    } catch (error: any) {
+      console.error('Create return error:', error);
+
+      if (error instanceof ReturnItemsError) {
+        return res.status(422).json({ error: error.message, details: error.problems });
+      }
+
+      if (error.message === 'Order not found') {
+        return res.status(404).json({ error: error.message });
+      }
+
+      if (error.message === 'Only delivered orders can be returned' || error.message.startsWith('Returns must be opened within')) {
+        return res.status(422).json({ error: error.message });
+      }
+
+      res.status(500).json({ error: 'Failed to create return' });
+    }
+  }
+);
+
+// GET /orders/:id/returns - Returns of an order with their audit trail (owner or ADMIN)
+router.get('/:id/returns',
+  authenticate,
+  orderIdValidation,
+  async (req: AuthenticatedRequest, res: any) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const order = await orderService.getOrderById(req.params.id!, req.user!.id, req.user!.role);
+      if (!order) {
+        return res.status(404).json({ error: 'Order not found' });
+      }
+
+      res.json({ returns: await returnService.getReturnsForOrder(req.params.id!) });
+    } catch (error) {
+      console.error('Get returns error:', error);
+      res.status(500).json({ error: 'Failed to fetch returns' });
+    }
+  }
+);
+
+// GET /orders/:id/invoice - Invoice as JSON, HTML or PDF (owner or ADMIN)
+router.get('/:id/invoice',
+  authenticate,
+  invoiceValidation,
+  async (req: AuthenticatedRequest, res: any) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const order = await orderService.getOrderById(req.params.id!, req.user!.id, req.user!.role);
+      if (!order) {
+        return res.status(404).json({ error: 'Order not found' });
+      }
+
+      // Invoices are issued when the payment succeeds; if that failed, the first download
+      // issues it. Without a settled payment there is nothing to invoice yet.
+      const invoice = await invoiceService.issueInvoice(req.params.id!);
+      if (!invoice) {
+        return res.status(409).json({ error: 'Invoice not available until the order is paid' });
+      }
+
+      sendInvoice(req, res, invoice);
+    } catch (error) {
+      console.error('Get invoice error:', error);
+      res.status(500).json({ error: 'Failed to fetch invoice' });
+    }
+  }
+);
+
+// GET /orders/:id/credit-notes - Credit notes issued for refunds (owner or ADMIN)
+router.get('/:id/credit-notes',
+  authenticate,
+  orderIdValidation,
+  async (req: AuthenticatedRequest, res: any) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const order = await orderService.getOrderById(req.params.id!, req.user!.id, req.user!.role);
+      if (!order) {
+        return res.status(404).json({ error: 'Order not found' });
+      }
+
+      res.json({ creditNotes: await invoiceService.getCreditNotes(req.params.id!) });
+    } catch (error) {
+      console.error('Get credit notes error:', error);
+      res.status(500).json({ error: 'Failed to fetch credit notes' });
+    }
+  }
+);
+
+// GET /orders/:id/credit-notes/:number - One credit note as JSON, HTML or PDF (owner or ADMIN)
+router.get('/:id/credit-notes/:number',
+  authenticate,
+  invoiceValidation,
+  async (req: AuthenticatedRequest, res: any) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const order = await orderService.getOrderById(req.params.id!, req.user!.id, req.user!.role);
+      if (!order) {
+        return res.status(404).json({ error: 'Order not found' });
+      }
+
+      const creditNote = await invoiceService.getCreditNote(req.params.id!, req.params.number!);
+      if (!creditNote) {
+        return res.status(404).json({ error: 'Credit note not found' });
+      }
+
+      sendInvoice(req, res, creditNote);
+    } catch (error) {
+      console.error('Get credit note error:', error);
+      res.status(500).json({ error: 'Failed to fetch credit note' });
+    }
+  }
+);
+
+// PATCH /orders/:id/items - Owner adds, removes or re-quantifies items on a pending order
+router.patch('/:id/items',
+  authenticate,
+  updateItemsValidation,
+  async (req: AuthenticatedRequest, res: any) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const { id } = req.params;
+      const { version } = req.body;
+      const changes = req.body.changes.map((change: any) => ({
+        sku: change.sku,
+        quantity: Number(change.quantity),
+        ...(change.variant && { variant: change.variant })
+      }));
+
+      const order = await orderService.updateOrderItems(id!, String(req.user!.id), changes, version);
+
+      res.json(order);
+    } catch (error: any) {
+      console.error('Update order items error:', error);
+
+      if (error instanceof CatalogValidationError) {
+        return res.status(422).json({
+          error: error.message,
+          unknown_skus: error.unknownSkus,
+          inactive_skus: error.inactiveSkus,
+          unknown_variants: error.unknownVariants
+        });
+      }
+
+      if (error instanceof UnsupportedCurrencyError) {
+        return res.status(422).json({ error: error.message, supported_currencies: SUPPORTED_CURRENCIES });
+      }
+
+      if (error instanceof InsufficientStockError) {
+        return res.status(409).json({ error: error.message, shortages: error.shortages });
+      }
+
+      if (error.message === 'Order items can no longer be changed' || error.message.includes('at least one item')) {
+        return res.status(422).json({ error: error.message });
+      }
+
+      if (error.message.includes('modified by another process') || error.message.includes('active payment')) {
+        return res.status(409).json({ error: error.message });
+      }
+
+      if (error.message === 'Order not found') {
+        return res.status(404).json({ error: 'Order not found' });
+      }
+
+      res.status(500).json({ error: 'Failed to update order items' });
+    }
+  }
+);
+
+// PATCH /orders/:id/shipping-address - Owner updates the address until the order ships
+router.patch('/:id/shipping-address',
+  authenticate,
+  updateShippingAddressValidation,
+  async (req: AuthenticatedRequest, res: any) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const { id } = req.params;
+      const { shippingAddress, version } = req.body;
+
+      const order = await orderService.updateShippingAddress(
+        id!,
+        String(req.user!.id),
+        OrderHelpers.sanitizeShippingAddress(shippingAddress),
+        version
+      );
+
+      res.json(order);
+    } catch (error: any) {
+      console.error('Update shipping address error:', error);
+
+      if (error instanceof UnsupportedCurrencyError) {
+        return res.status(422).json({ error: error.message, supported_currencies: SUPPORTED_CURRENCIES });
+      }
+
+      if (error.message === 'Shipping address can no longer be changed' ||
+          error.message === 'Shipping address change would alter the total of a paid order') {
+        return res.status(422).json({ error: error.message });
+      }
+
+      if (error.message.includes('modified by another process')) {
+        return res.status(409).json({ error: error.message });
+      }
+
+      if (error.message === 'Order not found') {
+        return res.status(404).json({ error: 'Order not found' });
+      }
+
+      res.status(500).json({ error: 'Failed to update shipping address' });
+    }
+  }
+);
+
+// PATCH /orders/:id/metadata - Replace an order's metadata (owner or admin)
+router.patch('/:id/metadata',
+  authenticate,
+  updateMetadataValidation,
+  async (req: AuthenticatedRequest, res: any) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const { id } = req.params;
+      const { metadata, version } = req.body;
+
+      const order = await orderService.updateMetadata(id!, String(req.user!.id), req.user!.role, metadata, version);
+
+      res.json(order);
+    } catch (error: any) {
+      console.error('Update order metadata error:', error);
+
+      if (error.message.includes('modified by another process')) {
+        return res.status(409).json({ error: error.message });
+      }
+
+      if (error.message === 'Order not found') {
+        return res.status(404).json({ error: 'Order not found' });
+      }
+
+      res.status(500).json({ error: 'Failed to update order metadata' });
+    }
+  }
+);
+
+// POST /orders/:id/cancel - Customer cancels their own order
+router.post('/:id/cancel',
+  authenticate,
+  cancelOrderValidation,
+  async (req: AuthenticatedRequest, res: any) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const { id } = req.params;
+      const { reason, version } = req.body;
+
+      const order = await orderService.cancelOrder(id!, String(req.user!.id), reason, version);
+
+      res.json(order);
+    } catch (error: any) {
+      console.error('Cancel order error:', error);
+
+      if (error instanceof InvalidStatusTransitionError) {
+        return res.status(422).json({
+          error: 'Order can no longer be cancelled',
+          current_status: error.from,
+          allowed_transitions: error.allowed
+        });
+      }
+
+      if (error.message.includes('modified by another process')) {
+        return res.status(409).json({ error: error.message });
+      }
+
+      if (error.message === 'Order not found') {
+        return res.status(404).json({ error: 'Order not found' });
+      }
+
+      res.status(500).json({ error: 'Failed to cancel order' });
+    }
+  }
+);
+
+// POST /orders/bulk/status - Update many order statuses with per-entry results (ADMIN only)
+router.post('/bulk/status',
+  authenticate,
+  authorize([UserRole.ADMIN]),
+  bulkStatusValidation,
+  async (req: AuthenticatedRequest, res: any) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const { updates, reason } = req.body;
+
+      const results = await orderService.bulkUpdateOrderStatus(
+        updates.map((update: any) => ({ id: update.id, status: update.status, version: update.version })),
+        {
+          actor: { type: 'admin', id: String(req.user!.id) },
+          ...(reason && { reason })
+        }
+      );
+
+      const summary: Record<string, number> = {};
+      for (const result of results) {
+        summary[result.outcome] = (summary[result.outcome] ?? 0) + 1;
+      }
+
+      res.json({ results, summary });
+    } catch (error) {
+      console.error('Bulk update order status error:', error);
+      res.status(500).json({ error: 'Failed to update order statuses' });
+    }
+  }
+);
+
 // PATCH /orders/:id/status - Update order status (ADMIN only)
 router.patch('/:id/status',
   authenticate,
@@ -193,14 +1194,26 @@ router.patch('/:id/status',
       }
 
       const { id } = req.params;
-      const { status, version } = req.body;
+      const { status, version, reason } = req.body;
 
-      const order = await orderService.updateOrderStatus(id!, status, version);
+      const order = await orderService.updateOrderStatus(id!, status, version, {
+        actor: { type: 'admin', id: String(req.user!.id) },
+        ...(reason && { reason })
+      });
       
       res.json(order);
     } catch (error: any) {
       console.error('Update order status error:', error);
       
+      if (error instanceof InvalidStatusTransitionError) {
+        return res.status(422).json({
+          error: error.message,
+          current_status: error.from,
+          requested_status: error.to,
+          allowed_transitions: error.allowed
+        });
+      }
+
       if (error.message.includes('modified by another process')) {
         return res.status(409).json({ error: error.message });
       }
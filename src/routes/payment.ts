@@ -3,9 +3,16 @@ import { authenticate, type AuthenticatedRequest } from '../middleware/auth.ts';
 import crypto from 'crypto';
 import { OrderService } from '../services/orderService.js';
 import { sql } from '../config/database.js';
+import { OrderStatus } from '../models/Order.js';
+import { Money } from '../models/Money.js';
+import { InvalidStatusTransitionError } from '../services/orderStateMachine.js';
+import { InsufficientStockError, InventoryService } from '../services/inventoryService.js';
+import { InvoiceService } from '../services/invoiceService.js';
 
 const paymentsRouter = Router();
 let orderService: OrderService;
+let inventoryService: InventoryService;
+let invoiceService: InvoiceService;
 
 // Enhanced payment statuses
 export enum PaymentStatus {
@@ -14,19 +21,27 @@ export enum PaymentStatus {
   FAILED = 'FAILED',
   CANCELLED = 'CANCELLED',
   REFUNDED = 'REFUNDED',
-  PROCESSING = 'PROCESSING'
+  PARTIALLY_REFUNDED = 'PARTIALLY_REFUNDED',
+  PROCESSING = 'PROCESSING',
+  // Money was captured but could not be applied to the order; refund or resolve manually
+  REQUIRES_REVIEW = 'REQUIRES_REVIEW'
 }
 
-export enum OrderStatus {
-  PENDING = 'PENDING',
-  PAID = 'PAID',
-  SHIPPED = 'SHIPPED',
-  DELIVERED = 'DELIVERED',
-  CANCELLED = 'CANCELLED'
-}
+// Statuses a provider callback may still change; every other status is final
+const OPEN_PAYMENT_STATUSES: string[] = [PaymentStatus.PENDING, PaymentStatus.PROCESSING];
+
+// Outcomes the provider reports through the webhook
+const WEBHOOK_PAYMENT_STATUSES: string[] = [
+  PaymentStatus.SUCCESS,
+  PaymentStatus.FAILED,
+  PaymentStatus.CANCELLED,
+  PaymentStatus.PROCESSING
+];
 
 export const initializePaymentRoutes = (dbClient: typeof sql) => {
   orderService = new OrderService(dbClient);
+  inventoryService = new InventoryService(dbClient);
+  invoiceService = new InvoiceService(dbClient);
   return paymentsRouter;
 };
 
@@ -35,7 +50,7 @@ paymentsRouter.post('/initiate',
   authenticate,
   async (req: AuthenticatedRequest, res) => {
     try {
-      const { order_id, payment_method = 'MPESA', currency = 'KSHS' } = req.body;
+      const { order_id, payment_method = 'MPESA', currency } = req.body;
       
       // Validate required fields
       if (!order_id) {
@@ -51,16 +66,24 @@ paymentsRouter.post('/initiate',
         return res.status(404).json({ error: 'Order not found' });
       }
 
-      // Check if order is already paid
-      if (order.status === OrderStatus.PAID) {
-        return res.status(400).json({ error: 'Order is already paid' });
+      // Only orders still awaiting payment can be paid; a paid, cancelled or shipped order never is
+      if (order.status !== OrderStatus.PENDING && order.status !== OrderStatus.CONFIRMED) {
+        return res.status(409).json({ error: `Order is ${order.status.toLowerCase()} and cannot be paid`, status: order.status });
+      }
+
+      // Payments are always taken in the order's currency
+      if (currency !== undefined && String(currency).toUpperCase() !== order.currency) {
+        return res.status(422).json({
+          error: 'Payment currency must match the order currency',
+          order_currency: order.currency
+        });
       }
 
       // Check if there's already a pending payment for this order
       const existingPayments = await sql`
         SELECT payment_id, status, redirect_url, amount, currency, payment_method, expires_at
         FROM payments 
-        WHERE order_id = ${order_id}::text AND status = ${PaymentStatus.PENDING}
+        WHERE order_id = ${order_id}::text AND status = ${PaymentStatus.PENDING} AND currency = ${order.currency}
         ORDER BY created_at DESC 
         LIMIT 1
       `;
@@ -70,14 +93,17 @@ paymentsRouter.post('/initiate',
         return res.json({
           payment_id: existingPayment!.payment_id,
           redirect_url: existingPayment!.redirect_url,
-          amount: existingPayment!.amount,
-          currency: existingPayment.currency,
+          amount: Money.fromDb(existingPayment!.amount, existingPayment!.currency),
           payment_method: existingPayment.payment_method,
           expires_at: existingPayment.expires_at,
           message: 'Using existing pending payment'
         });
       }
 
+      // A previous payment may have expired and handed the order's stock back; only
+      // take it again while the order is still in the state checked above
+      await inventoryService.ensureReserved(String(order.id), order.items, { status: order.status, version: order.version });
+
       // Create new payment record
       const paymentId = `pay_${crypto.randomBytes(16).toString('hex')}`;
       const redirectUrl = `${process.env.PAYMENT_PROVIDER_URL || 'https://payment-provider.example.com'}/pay/${paymentId}`;
@@ -101,8 +127,8 @@ paymentsRouter.post('/initiate',
         VALUES (
           ${order_id}::text, 
           ${paymentId}::text, 
-          ${order.total_amount}::decimal(10,2), 
-          ${currency}::text,
+          ${order.total_amount.amount}::bigint, 
+          ${order.currency}::text,
           ${payment_method}::text,
           ${PaymentStatus.PENDING}::text, 
           ${redirectUrl}::text,
@@ -122,14 +148,18 @@ paymentsRouter.post('/initiate',
       res.json({
         payment_id: newPayment!.payment_id,
         redirect_url: redirectUrl,
-        amount: newPayment!.amount,
-        currency: newPayment!.currency,
+        amount: Money.fromDb(newPayment!.amount, newPayment!.currency),
         expires_at: newPayment!.expires_at,
         payment_method: newPayment!.payment_method
       });
 
     } catch (error: any) {
       console.error('Payment initiation error:', error);
+
+      if (error instanceof InsufficientStockError) {
+        return res.status(409).json({ error: error.message, shortages: error.shortages });
+      }
+
       res.status(500).json({ 
         error: 'Failed to initiate payment',
         details: process.env.NODE_ENV === 'development' ? error.message : undefined
@@ -177,8 +207,7 @@ paymentsRouter.get('/:payment_id/status',
       res.json({
         payment_id: payment.payment_id,
         status: payment.status,
-        amount: payment.amount,
-        currency: payment.currency,
+        amount: Money.fromDb(payment.amount, payment.currency),
         payment_method: payment.payment_method,
         created_at: payment.created_at,
         updated_at: payment.updated_at,
@@ -235,6 +264,10 @@ paymentsRouter.post('/webhook', async (req, res) => {
       return res.status(400).json({ error: 'Missing required webhook fields' });
     }
 
+    if (!WEBHOOK_PAYMENT_STATUSES.includes(status)) {
+      return res.status(400).json({ error: 'Unknown payment status', allowed: WEBHOOK_PAYMENT_STATUSES });
+    }
+
     await processWebhookWithRetry(payment_id, order_id, status, transaction_id, failure_reason);
     
     res.json({ success: true, processed_at: new Date().toISOString() });
@@ -293,12 +326,13 @@ paymentsRouter.post('/:payment_id/cancel',
           status = ${PaymentStatus.CANCELLED}::text, 
           updated_at = NOW(),
           failure_reason = 'Cancelled by user'
-        WHERE payment_id = ${payment_id}::text
+        WHERE payment_id = ${payment_id}::text AND status = ${PaymentStatus.PENDING}::text
         RETURNING payment_id, status
       `;
 
+      // The provider may have moved it on since the check above
       if (updateResult.length === 0) {
-        return res.status(500).json({ error: 'Failed to cancel payment' });
+        return res.status(400).json({ error: 'Payment cannot be cancelled' });
       }
 
       res.json({ 
@@ -341,61 +375,50 @@ async function processWebhookWithRetry(
       throw new Error(`Payment ${paymentId} not found`);
     }
 
-    const currentPayment = existingResult[0];
-    
-    // If already processed with same transaction_id, return success
-    if (currentPayment.status !== PaymentStatus.PENDING && 
-        currentPayment.transaction_id === transactionId) {
-      console.log(`Payment ${paymentId} already processed with transaction ${transactionId}`);
+    const currentPayment = existingResult[0]!;
+
+    // Final statuses are never overwritten, whatever the callback says
+    if (!OPEN_PAYMENT_STATUSES.includes(currentPayment.status)) {
+      if (status === PaymentStatus.SUCCESS && currentPayment.status !== PaymentStatus.SUCCESS) {
+        await recordLateCapture(paymentId, transactionId);
+      } else if (status === PaymentStatus.SUCCESS) {
+        console.log(`Payment ${paymentId} already SUCCESS; ignoring repeated callback`);
+        await issuePaidInvoice(paymentId, String(currentPayment.order_id));
+      } else {
+        console.log(`Payment ${paymentId} already ${currentPayment.status}; ignoring ${status} callback`);
+      }
       return;
     }
 
+    // The payment belongs to the order it was created for, not to whatever the callback names
+    const actualOrderId = String(currentPayment.order_id);
+    if (orderId && String(orderId) !== actualOrderId) {
+      console.warn(`Webhook for payment ${paymentId} named order ${orderId}; using ${actualOrderId}`);
+    }
+
     const now = new Date();
 
-    // Start transaction for atomic updates
-    await sql.begin(async (txSql) => {
-      // Update payment status with additional fields
-      const paymentUpdateResult = await txSql`
+    if (status === PaymentStatus.SUCCESS) {
+      await capturePayment(paymentId, actualOrderId, transactionId, now);
+    } else {
+      const paymentUpdateResult = await sql`
         UPDATE payments 
         SET 
           status = ${status}::text, 
-          transaction_id = ${transactionId || null}::text,
+          transaction_id = COALESCE(${transactionId || null}::text, transaction_id),
           failure_reason = ${failureReason || null}::text,
           updated_at = ${now}::timestamp,
           processed_at = ${now}::timestamp
-        WHERE payment_id = ${paymentId}::text
+        WHERE payment_id = ${paymentId}::text AND status = ANY(${OPEN_PAYMENT_STATUSES})
         RETURNING order_id, status
       `;
 
       if (paymentUpdateResult.length === 0) {
-        throw new Error(`Failed to update payment ${paymentId}`);
-      }
-
-      const updatedPayment = paymentUpdateResult[0];
-      const actualOrderId = orderId || updatedPayment.order_id;
-
-      // Update order status based on payment status
-      if (status === PaymentStatus.SUCCESS) {
-        const orderUpdateResult = await txSql`
-          UPDATE orders 
-          SET 
-            status = ${OrderStatus.PAID}::text, 
-            updated_at = ${now}::timestamp,
-            paid_at = ${now}::timestamp
-          WHERE id = ${actualOrderId}::bigint
-          RETURNING id, status
-        `;
-
-        if (orderUpdateResult.length === 0) {
-          throw new Error(`Failed to update order ${actualOrderId}`);
-        }
-
-        console.log(`Payment ${paymentId} for order ${actualOrderId} processed successfully`);
-        
+        console.log(`Payment ${paymentId} was closed before its ${status} callback was applied`);
       } else if (status === PaymentStatus.FAILED) {
         console.log(`Payment ${paymentId} failed: ${failureReason}`);
       }
-    });
+    }
 
     // Clean up expired pending payments (optional background task)
     await cleanupExpiredPayments();
@@ -457,15 +480,8 @@ async function processWebhookWithRetry(
           )
         `;
         
-        // Mark payment as failed after max retries
-        await sql`
-          UPDATE payments 
-          SET 
-            status = ${PaymentStatus.FAILED}::text, 
-            failure_reason = 'Webhook processing failed after maximum retries',
-            updated_at = NOW()
-          WHERE payment_id = ${paymentId}::text
-        `;
+        // The provider's outcome could not be applied; leave it to a human rather than guess
+        await sendPaymentToReview(paymentId, `Webhook (${status}) processing failed after maximum retries`, new Date());
       } catch (logError) {
         console.error('Failed to log final failure:', logError);
       }
@@ -475,6 +491,133 @@ async function processWebhookWithRetry(
   }
 }
 
+/**
+ * Apply a success callback. The payment is first claimed as PROCESSING, which
+ * payment expiry and the order expiry sweep leave alone (the sweep never cancels
+ * an order with an open payment); a customer or admin cancelling the order in the
+ * meantime cancels it too, and the capture is then noted for a manual refund.
+ * Otherwise the order moves to PAID and the payment to SUCCESS in one transaction.
+ * An order that can no longer take the money sends the payment to review instead.
+ */
+async function capturePayment(paymentId: string, orderId: string, transactionId: string | undefined, now: Date): Promise<void> {
+  const claimed = await sql`
+    UPDATE payments 
+    SET 
+      status = ${PaymentStatus.PROCESSING}::text, 
+      transaction_id = COALESCE(${transactionId || null}::text, transaction_id),
+      updated_at = ${now}::timestamp
+    WHERE payment_id = ${paymentId}::text AND status = ANY(${OPEN_PAYMENT_STATUSES})
+    RETURNING payment_id
+  `;
+
+  if (claimed.length === 0) {
+    // Closed between the read and the claim; a retry sees the final status
+    throw new Error(`Payment ${paymentId} was closed while its success callback was processed`);
+  }
+
+  const order = await orderService.getOrderById(orderId);
+  if (!order) {
+    throw new Error(`Failed to update order ${orderId}`);
+  }
+
+  try {
+    await orderService.updateOrderStatus(orderId, OrderStatus.PAID, order.version, {
+      actor: { type: 'payment-webhook', id: paymentId },
+      reason: `Payment ${transactionId || paymentId} succeeded`
+    }, guard => [
+      sql`
+        UPDATE payments 
+        SET 
+          status = ${PaymentStatus.SUCCESS}::text, 
+          failure_reason = NULL,
+          updated_at = ${now}::timestamp,
+          processed_at = ${now}::timestamp
+        WHERE payment_id = ${paymentId}::text 
+          AND status = ${PaymentStatus.PROCESSING}::text
+          AND EXISTS (
+            SELECT 1 FROM orders 
+            WHERE id = ${orderId} AND status = ${guard.status}::text AND version = ${guard.version}::integer
+          )
+      `
+    ]);
+  } catch (error) {
+    // Retrying cannot make an illegal transition legal or bring sold-out stock back:
+    // the money has to go back
+    if (error instanceof InvalidStatusTransitionError || error instanceof InsufficientStockError) {
+      const reviewed = await sendPaymentToReview(paymentId, `Captured but order ${orderId} cannot be paid: ${error.message}`, now);
+      if (!reviewed) {
+        // Cancelled together with its order while we were capturing
+        await recordLateCapture(paymentId, transactionId);
+      }
+      return;
+    }
+    throw error;
+  }
+
+  console.log(`Payment ${paymentId} for order ${orderId} processed successfully`);
+
+  await issuePaidInvoice(paymentId, orderId);
+}
+
+/**
+ * Invoices are only issued for payments. Not worth a webhook retry: a repeated
+ * success callback, the first refund or the first invoice download issues a missing one.
+ */
+async function issuePaidInvoice(paymentId: string, orderId: string): Promise<void> {
+  try {
+    const invoice = await invoiceService.issueInvoice(orderId);
+    if (invoice) {
+      console.log(`Invoice ${invoice.number} issued for order ${invoice.order_id}`);
+    }
+  } catch (invoiceError) {
+    console.error(`Failed to issue invoice for payment ${paymentId}:`, invoiceError);
+  }
+}
+
+/**
+ * Money was taken but the order cannot have it: park the payment for a manual refund
+ */
+async function sendPaymentToReview(paymentId: string, reason: string, now: Date): Promise<boolean> {
+  const result = await sql`
+    UPDATE payments 
+    SET 
+      status = ${PaymentStatus.REQUIRES_REVIEW}::text, 
+      failure_reason = ${reason}::text,
+      updated_at = ${now}::timestamp,
+      processed_at = ${now}::timestamp
+    WHERE payment_id = ${paymentId}::text AND status = ANY(${OPEN_PAYMENT_STATUSES})
+    RETURNING payment_id
+  `;
+
+  if (result.length > 0) {
+    console.error(`Payment ${paymentId} needs review: ${reason}`);
+  }
+  return result.length > 0;
+}
+
+/**
+ * A success callback for a payment that was already closed (e.g. expired or
+ * cancelled with its order). The status stays as it is; the capture is noted on
+ * the payment for a manual refund.
+ */
+async function recordLateCapture(paymentId: string, transactionId?: string): Promise<void> {
+  const note = `captured after the payment was closed (transaction ${transactionId || 'unknown'}); refund required`;
+
+  const result = await sql`
+    UPDATE payments 
+    SET 
+      failure_reason = CONCAT_WS('; ', failure_reason, status || ': ' || ${note}::text),
+      transaction_id = COALESCE(transaction_id, ${transactionId || null}::text),
+      updated_at = NOW()
+    WHERE payment_id = ${paymentId}::text 
+      AND status <> ALL(${OPEN_PAYMENT_STATUSES})
+      AND (failure_reason IS NULL OR position(${note}::text IN failure_reason) = 0)
+    RETURNING status
+  `;
+
+  console.error(`Payment ${paymentId} ${result[0]?.status ?? ''}: ${note}`);
+}
+
 // Helper function to clean up expired payments
 async function cleanupExpiredPayments(): Promise<void> {
   try {
@@ -487,11 +630,18 @@ async function cleanupExpiredPayments(): Promise<void> {
       WHERE 
         status = ${PaymentStatus.PENDING}::text
         AND expires_at < NOW()
-      RETURNING payment_id
+      RETURNING payment_id, order_id
     `;
     
     if (result.length > 0) {
       console.log(`Cleaned up ${result.length} expired payments`);
+
+      // Hand back stock held by orders that now have no pending payment
+      const orderIds = [...new Set(result.map(row => String(row.order_id)))];
+      const released = await inventoryService.expireReservations(orderIds);
+      if (released > 0) {
+        console.log(`Released stock for ${released} SKUs after payment expiry`);
+      }
     }
   } catch (error) {
     console.error('Failed to cleanup expired payments:', error);
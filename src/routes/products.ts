@@ -0,0 +1,211 @@
+import { Router } from 'express';
+import { ProductService } from '../services/productService.js';
+import { authenticate, authorize, type AuthenticatedRequest } from '../middleware/auth.js';
+import { CATALOG_CURRENCY, UserRole } from '../models/Order.js';
+import { Money } from '../models/Money.js';
+import { body, query, param, validationResult } from 'express-validator';
+import { sql } from '../config/database.ts';
+
+const router = Router();
+
+const variantValidation = [
+  body('variants').optional().isArray().withMessage('Variants must be an array'),
+  body('variants.*.code').isString().trim().notEmpty().withMessage('Variant code is required'),
+  body('variants.*.name').isString().trim().notEmpty().withMessage('Variant name is required'),
+  body('variants.*.unitPrice').optional().isFloat({ min: 0 }).withMessage('Variant price must be a non-negative amount'),
+  body('variants.*.active').optional().isBoolean().toBoolean()
+];
+
+const createProductValidation = [
+  body('sku').isString().trim().isLength({ min: 1, max: 64 }).withMessage('SKU is required'),
+  body('name').isString().trim().isLength({ min: 1, max: 200 }).withMessage('Name is required'),
+  body('description').optional().isString().isLength({ max: 2000 }),
+  body('unitPrice').isFloat({ min: 0 }).withMessage('Unit price must be a non-negative amount'),
+  body('active').optional().isBoolean().toBoolean(),
+  ...variantValidation
+];
+
+const updateProductValidation = [
+  param('sku').isString().notEmpty(),
+  body('name').optional().isString().trim().isLength({ min: 1, max: 200 }),
+  body('description').optional().isString().isLength({ max: 2000 }),
+  body('unitPrice').optional().isFloat({ min: 0 }).withMessage('Unit price must be a non-negative amount'),
+  body('active').optional().isBoolean().toBoolean(),
+  ...variantValidation
+];
+
+const listProductsValidation = [
+  query('active').optional().isBoolean(),
+  query('page').optional().isInt({ min: 1 }),
+  query('limit').optional().isInt({ min: 1, max: 100 }),
+  query('q').optional().isString()
+];
+
+// Prices are given in major units of CATALOG_CURRENCY (12.5 = 12.50)
+const toCatalogPrice = (value: unknown) => Money.fromMajor(Number(value), CATALOG_CURRENCY);
+
+// Variants default to active when the flag is omitted
+const normalizeVariants = (variants: any[]) =>
+  variants.map(variant => ({
+    code: variant.code,
+    name: variant.name,
+    ...(variant.unitPrice !== undefined && { unitPrice: toCatalogPrice(variant.unitPrice) }),
+    active: variant.active ?? true
+  }));
+
+// Initialize service
+let productService: ProductService;
+
+export const initializeProductRoutes = (dbClient: typeof sql) => {
+  productService = new ProductService(dbClient);
+  return router;
+};
+
+// POST /products - Create product (ADMIN only)
+router.post('/',
+  authenticate,
+  authorize([UserRole.ADMIN]),
+  createProductValidation,
+  async (req: AuthenticatedRequest, res: any) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const { sku, name, description, unitPrice, active, variants } = req.body;
+      const product = await productService.createProduct({
+        sku,
+        name,
+        unitPrice: toCatalogPrice(unitPrice),
+        ...(description !== undefined && { description }),
+        ...(active !== undefined && { active }),
+        ...(variants && { variants: normalizeVariants(variants) })
+      });
+
+      res.status(201).json(product);
+    } catch (error: any) {
+      console.error('Create product error:', error);
+
+      if (error.message === 'Product already exists') {
+        return res.status(409).json({ error: error.message });
+      }
+
+      res.status(500).json({ error: 'Failed to create product' });
+    }
+  }
+);
+
+// GET /products - List products (inactive products are visible to admins only)
+router.get('/',
+  authenticate,
+  listProductsValidation,
+  async (req: AuthenticatedRequest, res: any) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const { active, q, page = '1', limit = '20' } = req.query;
+      const isAdmin = req.user!.role === UserRole.ADMIN;
+      const activeFilter = isAdmin
+        ? (active === undefined ? undefined : active === 'true')
+        : true;
+
+      const result = await productService.getProducts({
+        ...(activeFilter !== undefined && { active: activeFilter }),
+        ...(q && { q: q as string }),
+        limit: parseInt(limit as string),
+        offset: (parseInt(page as string) - 1) * parseInt(limit as string)
+      });
+
+      res.json({
+        products: result.products,
+        pagination: {
+          page: parseInt(page as string),
+          limit: parseInt(limit as string),
+          total: result.total,
+          pages: Math.ceil(result.total / parseInt(limit as string))
+        }
+      });
+    } catch (error) {
+      console.error('List products error:', error);
+      res.status(500).json({ error: 'Failed to fetch products' });
+    }
+  }
+);
+
+// GET /products/:sku - Get product details
+router.get('/:sku',
+  authenticate,
+  async (req: AuthenticatedRequest, res: any) => {
+    try {
+      const product = await productService.getProductBySku(req.params.sku!);
+
+      if (!product || (!product.active && req.user!.role !== UserRole.ADMIN)) {
+        return res.status(404).json({ error: 'Product not found' });
+      }
+
+      res.json(product);
+    } catch (error) {
+      console.error('Get product error:', error);
+      res.status(500).json({ error: 'Failed to fetch product' });
+    }
+  }
+);
+
+// PATCH /products/:sku - Update product (ADMIN only)
+router.patch('/:sku',
+  authenticate,
+  authorize([UserRole.ADMIN]),
+  updateProductValidation,
+  async (req: AuthenticatedRequest, res: any) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const { name, description, unitPrice, active, variants } = req.body;
+      const product = await productService.updateProduct(req.params.sku!, {
+        ...(name !== undefined && { name }),
+        ...(description !== undefined && { description }),
+        ...(unitPrice !== undefined && { unitPrice: toCatalogPrice(unitPrice) }),
+        ...(active !== undefined && { active }),
+        ...(variants && { variants: normalizeVariants(variants) })
+      });
+
+      if (!product) {
+        return res.status(404).json({ error: 'Product not found' });
+      }
+
+      res.json(product);
+    } catch (error) {
+      console.error('Update product error:', error);
+      res.status(500).json({ error: 'Failed to update product' });
+    }
+  }
+);
+
+// DELETE /products/:sku - Deactivate product (ADMIN only)
+router.delete('/:sku',
+  authenticate,
+  authorize([UserRole.ADMIN]),
+  async (req: AuthenticatedRequest, res: any) => {
+    try {
+      const product = await productService.deactivateProduct(req.params.sku!);
+
+      if (!product) {
+        return res.status(404).json({ error: 'Product not found' });
+      }
+
+      res.json(product);
+    } catch (error) {
+      console.error('Deactivate product error:', error);
+      res.status(500).json({ error: 'Failed to deactivate product' });
+    }
+  }
+);
+
+export { router as productRoutes };
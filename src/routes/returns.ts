@@ -0,0 +1,237 @@
+import { Router } from 'express';
+import {
+  ReturnService,
+  InvalidReturnTransitionError,
+  RefundFailedError,
+  RefundPendingError
+} from '../services/returnService.js';
+import { authenticate, authorize, type AuthenticatedRequest } from '../middleware/auth.js';
+import { UserRole } from '../models/Order.js';
+import { ReturnStatus, type ReturnActor } from '../models/Return.js';
+import { body, query, param, validationResult } from 'express-validator';
+import { sql } from '../config/database.ts';
+
+const router = Router();
+
+const returnStepValidation = [
+  param('id').isInt().withMessage('Invalid return ID'),
+  body('version').isInt().withMessage('Version must be an integer').toInt(),
+  body('note').optional().isString().isLength({ max: 1000 })
+];
+
+const rejectReturnValidation = [
+  ...returnStepValidation,
+  body('note').isString().trim().isLength({ min: 1, max: 1000 }).withMessage('A note explaining the rejection is required')
+];
+
+const receiveReturnValidation = [
+  ...returnStepValidation,
+  body('items').optional().isArray(),
+  body('items.*.sku').isString().notEmpty(),
+  body('items.*.variant').optional().isString(),
+  body('items.*.restock').isBoolean().withMessage('restock must be a boolean').toBoolean()
+];
+
+const listReturnsValidation = [
+  query('status').optional().isIn(Object.values(ReturnStatus)),
+  query('page').optional().isInt({ min: 1 }),
+  query('limit').optional().isInt({ min: 1, max: 100 })
+];
+
+// Initialize service
+let returnService: ReturnService;
+
+export const initializeReturnRoutes = (dbClient: typeof sql) => {
+  returnService = new ReturnService(dbClient);
+  return router;
+};
+
+const adminActor = (req: AuthenticatedRequest): ReturnActor => ({ type: 'admin', id: String(req.user!.id) });
+
+// Shared error mapping for the admin workflow steps
+const handleStepError = (res: any, error: any, fallback: string) => {
+  if (error instanceof InvalidReturnTransitionError) {
+    return res.status(422).json({
+      error: error.message,
+      current_status: error.from,
+      requested_status: error.to,
+      allowed_transitions: error.allowed
+    });
+  }
+
+  if (error.message === 'Return not found') {
+    return res.status(404).json({ error: error.message });
+  }
+
+  if (error.message.includes('modified by another process')) {
+    return res.status(409).json({ error: error.message });
+  }
+
+  if (error.message === 'No settled payment to refund against' || error.message === 'Payment has already been fully refunded') {
+    return res.status(422).json({ error: error.message });
+  }
+
+  res.status(500).json({ error: fallback });
+};
+
+// GET /returns - Return requests by status, oldest first (ADMIN only)
+router.get('/',
+  authenticate,
+  authorize([UserRole.ADMIN]),
+  listReturnsValidation,
+  async (req: AuthenticatedRequest, res: any) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const { status, page = '1', limit = '20' } = req.query;
+      const result = await returnService.listReturns(
+        status as ReturnStatus | undefined,
+        parseInt(limit as string),
+        (parseInt(page as string) - 1) * parseInt(limit as string)
+      );
+
+      res.json({
+        returns: result.returns,
+        pagination: {
+          page: parseInt(page as string),
+          limit: parseInt(limit as string),
+          total: result.total,
+          pages: Math.ceil(result.total / parseInt(limit as string))
+        }
+      });
+    } catch (error) {
+      console.error('List returns error:', error);
+      res.status(500).json({ error: 'Failed to fetch returns' });
+    }
+  }
+);
+
+// GET /returns/:id - Return details with its audit trail (owner or ADMIN)
+router.get('/:id',
+  authenticate,
+  param('id').isInt(),
+  async (req: AuthenticatedRequest, res: any) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const request = await returnService.getReturnById(req.params.id!);
+
+      if (!request || (req.user!.role !== UserRole.ADMIN && request.user_id !== String(req.user!.id))) {
+        return res.status(404).json({ error: 'Return not found' });
+      }
+
+      res.json(request);
+    } catch (error) {
+      console.error('Get return error:', error);
+      res.status(500).json({ error: 'Failed to fetch return' });
+    }
+  }
+);
+
+// POST /returns/:id/approve - Approve a requested return (ADMIN only)
+router.post('/:id/approve',
+  authenticate,
+  authorize([UserRole.ADMIN]),
+  returnStepValidation,
+  async (req: AuthenticatedRequest, res: any) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const { version, note } = req.body;
+      res.json(await returnService.approveReturn(req.params.id!, version, adminActor(req), note));
+    } catch (error: any) {
+      console.error('Approve return error:', error);
+      handleStepError(res, error, 'Failed to approve return');
+    }
+  }
+);
+
+// POST /returns/:id/reject - Reject a requested return with a note (ADMIN only)
+router.post('/:id/reject',
+  authenticate,
+  authorize([UserRole.ADMIN]),
+  rejectReturnValidation,
+  async (req: AuthenticatedRequest, res: any) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const { version, note } = req.body;
+      res.json(await returnService.rejectReturn(req.params.id!, version, adminActor(req), note));
+    } catch (error: any) {
+      console.error('Reject return error:', error);
+      handleStepError(res, error, 'Failed to reject return');
+    }
+  }
+);
+
+// POST /returns/:id/receive - Record receipt of the goods and restock them (ADMIN only)
+router.post('/:id/receive',
+  authenticate,
+  authorize([UserRole.ADMIN]),
+  receiveReturnValidation,
+  async (req: AuthenticatedRequest, res: any) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const { version, note, items = [] } = req.body;
+      const lines = items.map((item: any) => ({
+        sku: item.sku,
+        restock: item.restock,
+        ...(item.variant && { variant: item.variant })
+      }));
+
+      res.json(await returnService.receiveReturn(req.params.id!, version, adminActor(req), lines, note));
+    } catch (error: any) {
+      console.error('Receive return error:', error);
+      handleStepError(res, error, 'Failed to record return receipt');
+    }
+  }
+);
+
+// POST /returns/:id/refund - Refund the returned value against the original payment (ADMIN only)
+router.post('/:id/refund',
+  authenticate,
+  authorize([UserRole.ADMIN]),
+  returnStepValidation,
+  async (req: AuthenticatedRequest, res: any) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const { version, note } = req.body;
+      res.json(await returnService.refundReturn(req.params.id!, version, adminActor(req), note));
+    } catch (error: any) {
+      console.error('Refund return error:', error);
+
+      // Not settled yet: the return stays RECEIVED; refunding again settles the same refund
+      if (error instanceof RefundPendingError) {
+        return res.status(202).json({ message: error.message, refund_id: error.refundId });
+      }
+
+      if (error instanceof RefundFailedError) {
+        return res.status(502).json({ error: error.message });
+      }
+
+      handleStepError(res, error, 'Failed to refund return');
+    }
+  }
+);
+
+export { router as returnRoutes };
@@ -0,0 +1,113 @@
+import { Router } from 'express';
+import crypto from 'crypto';
+import { body, validationResult } from 'express-validator';
+import { ShipmentService } from '../services/shipmentService.js';
+import { ShipmentStatus } from '../models/Shipment.js';
+import { sql } from '../config/database.ts';
+
+const router = Router();
+
+// Replay window for signed carrier webhooks (seconds)
+const WEBHOOK_TOLERANCE_SECONDS = 300;
+
+const carrierWebhookValidation = [
+  body('carrier').isString().trim().notEmpty().withMessage('carrier is required'),
+  body('tracking_number').isString().trim().notEmpty().withMessage('tracking_number is required'),
+  body('event_id').isString().trim().isLength({ min: 1, max: 100 }).withMessage('event_id is required'),
+  body('status').isIn(Object.values(ShipmentStatus)).withMessage('Invalid shipment status'),
+  body('description').optional().isString().isLength({ max: 1000 }),
+  body('location').optional().isString().isLength({ max: 200 }),
+  body('occurred_at').isISO8601().withMessage('occurred_at must be an ISO 8601 date')
+];
+
+// Initialize service
+let shipmentService: ShipmentService;
+
+export const initializeShipmentRoutes = (dbClient: typeof sql) => {
+  shipmentService = new ShipmentService(dbClient);
+  return router;
+};
+
+/**
+ * Verify `x-carrier-signature: sha256=<hmac of "<timestamp>.<body>">`, same scheme as the payment webhook
+ */
+const verifyCarrierSignature = (req: any, res: any, next: any) => {
+  // Fail closed: without a configured secret no event can be trusted
+  const secret = process.env.CARRIER_WEBHOOK_SECRET;
+  if (!secret) {
+    console.error('CARRIER_WEBHOOK_SECRET is not set; rejecting carrier webhook');
+    return res.status(503).json({ error: 'Carrier webhook is not configured' });
+  }
+
+  const signature = req.headers['x-carrier-signature'] as string;
+  const timestamp = req.headers['x-carrier-timestamp'] as string;
+
+  if (!signature || !timestamp) {
+    return res.status(400).json({ error: 'Missing webhook headers' });
+  }
+
+  // Check timestamp to prevent replay attacks
+  const webhookTime = parseInt(timestamp);
+  const currentTime = Math.floor(Date.now() / 1000);
+  if (Number.isNaN(webhookTime) || Math.abs(currentTime - webhookTime) > WEBHOOK_TOLERANCE_SECONDS) {
+    return res.status(400).json({ error: 'Webhook timestamp too old' });
+  }
+
+  const expectedSignature = crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${JSON.stringify(req.body)}`)
+    .digest();
+
+  // timingSafeEqual throws on buffers of different lengths, so check that first
+  const provided = Buffer.from(signature.replace(/^sha256=/, ''), 'hex');
+
+  if (provided.length !== expectedSignature.length || !crypto.timingSafeEqual(provided, expectedSignature)) {
+    return res.status(401).json({ error: 'Invalid signature' });
+  }
+
+  next();
+};
+
+// POST /shipments/webhook - Carrier tracking events (HMAC signed)
+router.post('/webhook',
+  verifyCarrierSignature,
+  carrierWebhookValidation,
+  async (req: any, res: any) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const { carrier, tracking_number, event_id, status, description, location, occurred_at } = req.body;
+
+      const result = await shipmentService.recordTrackingUpdate({
+        carrier,
+        trackingNumber: tracking_number,
+        eventId: event_id,
+        status,
+        occurredAt: new Date(occurred_at),
+        ...(description && { description }),
+        ...(location && { location })
+      });
+
+      res.json({
+        success: true,
+        duplicate: result.duplicate,
+        shipment_status: result.shipment.status,
+        order_status: result.order?.status ?? null,
+        processed_at: new Date().toISOString()
+      });
+    } catch (error: any) {
+      console.error('Carrier webhook error:', error);
+
+      if (error.message === 'Shipment not found') {
+        return res.status(404).json({ error: error.message });
+      }
+
+      res.status(500).json({ error: 'Webhook processing failed' });
+    }
+  }
+);
+
+export { router as shipmentRoutes };
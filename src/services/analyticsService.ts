@@ -0,0 +1,216 @@
+import { sql } from '../config/database.ts';
+import { OrderStatus, PaymentStatus, type CurrencyRevenue, type OrderSummary } from '../models/Order.js';
+import type {
+  OrderAnalytics,
+  OrderAnalyticsQuery,
+  OrderTimeSeriesPoint,
+  TopSkuEntry
+} from '../models/Analytics.js';
+import { Money } from '../models/Money.js';
+import { PAYMENT_STATUS_SOURCES } from './orderQueryBuilder.js';
+
+// Orders that count towards revenue: paid and not cancelled or refunded
+export const REVENUE_STATUSES: OrderStatus[] = [
+  OrderStatus.PAID,
+  OrderStatus.PROCESSING,
+  OrderStatus.PARTIALLY_SHIPPED,
+  OrderStatus.SHIPPED,
+  OrderStatus.DELIVERED
+];
+
+export class AnalyticsService {
+  constructor(private db: typeof sql) {}
+
+  /**
+   * Summary, time series and top SKUs for orders created in [from, to).
+   * Everything is aggregated in SQL; only the result rows come back.
+   * Amounts are always grouped by currency, never added across currencies.
+   */
+  async getOrderAnalytics(query: OrderAnalyticsQuery): Promise<OrderAnalytics> {
+    try {
+      const [summary, timeSeries, topSkus] = await Promise.all([
+        this.getSummary(query),
+        this.getTimeSeries(query),
+        this.getTopSkus(query)
+      ]);
+
+      return {
+        range: { from: query.from, to: query.to },
+        interval: query.interval,
+        currency: query.currency ?? null,
+        summary,
+        timeSeries,
+        topSkus
+      };
+    } catch (error) {
+      console.error('Error computing order analytics:', error);
+      throw error;
+    }
+  }
+
+  private async getSummary(query: OrderAnalyticsQuery): Promise<OrderSummary> {
+    const currency = query.currency ?? null;
+
+    const [totals, revenue, byStatus, byPayment] = await this.db.transaction([
+      this.db`
+        SELECT COUNT(*) AS total_orders
+        FROM orders
+        WHERE created_at >= ${query.from} AND created_at < ${query.to}
+          AND (${currency}::text IS NULL OR currency = ${currency})
+      `,
+      this.db`
+        SELECT currency, SUM(total_amount) AS total_revenue, COUNT(*) AS revenue_orders
+        FROM orders
+        WHERE created_at >= ${query.from} AND created_at < ${query.to}
+          AND (${currency}::text IS NULL OR currency = ${currency})
+          AND status = ANY(${REVENUE_STATUSES})
+        GROUP BY currency
+        ORDER BY currency
+      `,
+      this.db`
+        SELECT status, COUNT(*) AS count
+        FROM orders
+        WHERE created_at >= ${query.from} AND created_at < ${query.to}
+          AND (${currency}::text IS NULL OR currency = ${currency})
+        GROUP BY status
+      `,
+      // Payment status is the status of each order's latest payment; no payment yet counts as pending
+      this.db`
+        SELECT COALESCE(p.status, 'PENDING') AS status, COUNT(*) AS count
+        FROM orders o
+        LEFT JOIN LATERAL (
+          SELECT status FROM payments
+          WHERE order_id = o.id::text
+          ORDER BY created_at DESC
+          LIMIT 1
+        ) p ON TRUE
+        WHERE o.created_at >= ${query.from} AND o.created_at < ${query.to}
+          AND (${currency}::text IS NULL OR o.currency = ${currency})
+        GROUP BY 1
+      `
+    ]);
+
+    const revenueByCurrency: CurrencyRevenue[] = revenue!.map(row => {
+      const totalRevenue = Money.fromDb(row.total_revenue, row.currency);
+      const revenueOrders = Number(row.revenue_orders);
+      return {
+        currency: row.currency,
+        totalRevenue,
+        revenueOrders,
+        averageOrderValue: revenueOrders > 0 ? Money.divide(totalRevenue, revenueOrders) : Money.zero(row.currency)
+      };
+    });
+
+    const ordersByStatus = Object.fromEntries(
+      Object.values(OrderStatus).map(status => [status, 0])
+    ) as Record<OrderStatus, number>;
+    for (const entry of byStatus!) {
+      ordersByStatus[entry.status as OrderStatus] = Number(entry.count);
+    }
+
+    const ordersByPaymentStatus = Object.fromEntries(
+      Object.values(PaymentStatus).map(status => [status, 0])
+    ) as Record<PaymentStatus, number>;
+    for (const entry of byPayment!) {
+      const status = this.toPaymentStatus(entry.status);
+      if (status) {
+        ordersByPaymentStatus[status] += Number(entry.count);
+      }
+    }
+
+    return {
+      totalOrders: Number(totals![0]!.total_orders),
+      revenueByCurrency,
+      ordersByStatus,
+      ordersByPaymentStatus
+    };
+  }
+
+  private async getTimeSeries(query: OrderAnalyticsQuery): Promise<OrderTimeSeriesPoint[]> {
+    const currency = query.currency ?? null;
+
+    // generate_series fills in periods without any orders; revenue is one entry per currency
+    const result = await this.db`
+      WITH buckets AS (
+        SELECT generate_series(
+          date_trunc(${query.interval}, ${query.from}::timestamp),
+          ${query.to}::timestamp - INTERVAL '1 microsecond',
+          ('1 ' || ${query.interval})::interval
+        ) AS period
+      ),
+      totals AS (
+        SELECT
+          date_trunc(${query.interval}, created_at) AS period,
+          currency,
+          COUNT(*) AS order_count,
+          COALESCE(SUM(total_amount) FILTER (WHERE status = ANY(${REVENUE_STATUSES})), 0) AS revenue
+        FROM orders
+        WHERE created_at >= ${query.from} AND created_at < ${query.to}
+          AND (${currency}::text IS NULL OR currency = ${currency})
+        GROUP BY 1, 2
+      )
+      SELECT
+        b.period,
+        COALESCE(SUM(t.order_count), 0) AS order_count,
+        COALESCE(jsonb_object_agg(t.currency, t.revenue) FILTER (WHERE t.currency IS NOT NULL), '{}'::jsonb) AS revenue
+      FROM buckets b
+      LEFT JOIN totals t ON t.period = b.period
+      GROUP BY b.period
+      ORDER BY b.period
+    `;
+
+    return result.map(row => ({
+      period: new Date(row.period),
+      orderCount: Number(row.order_count),
+      revenue: Object.entries(row.revenue as Record<string, number | string>)
+        .map(([currency, amount]) => Money.fromDb(amount, currency))
+        .sort((left, right) => left.currency.localeCompare(right.currency))
+    }));
+  }
+
+  // Ranked within each currency: the top N per currency, not across currencies
+  private async getTopSkus(query: OrderAnalyticsQuery): Promise<TopSkuEntry[]> {
+    const currency = query.currency ?? null;
+
+    const result = await this.db`
+      WITH ranked AS (
+        SELECT
+          item->>'sku' AS sku,
+          o.currency,
+          MAX(item->>'productName') AS product_name,
+          SUM((item->>'quantity')::int) AS quantity,
+          SUM(COALESCE((item->>'totalPrice')::bigint, (item->>'price')::bigint * (item->>'quantity')::int)) AS revenue,
+          COUNT(DISTINCT o.id) AS order_count,
+          ROW_NUMBER() OVER (
+            PARTITION BY o.currency
+            ORDER BY SUM(COALESCE((item->>'totalPrice')::bigint, (item->>'price')::bigint * (item->>'quantity')::int)) DESC,
+              SUM((item->>'quantity')::int) DESC,
+              item->>'sku'
+          ) AS rank
+        FROM orders o
+        CROSS JOIN LATERAL jsonb_array_elements(o.items) AS item
+        WHERE o.created_at >= ${query.from} AND o.created_at < ${query.to}
+          AND (${currency}::text IS NULL OR o.currency = ${currency})
+          AND o.status = ANY(${REVENUE_STATUSES})
+        GROUP BY 1, 2
+      )
+      SELECT * FROM ranked
+      WHERE rank <= ${query.topSkuLimit}
+      ORDER BY currency, rank
+    `;
+
+    return result.map(row => ({
+      sku: row.sku,
+      productName: row.product_name ?? null,
+      quantity: Number(row.quantity),
+      revenue: Money.fromDb(row.revenue, row.currency),
+      orderCount: Number(row.order_count)
+    }));
+  }
+
+  // Map a payments-table status back to the order-level payment status it belongs to
+  private toPaymentStatus(providerStatus: string): PaymentStatus | undefined {
+    return (Object.keys(PAYMENT_STATUS_SOURCES) as PaymentStatus[])
+      .find(status => PAYMENT_STATUS_SOURCES[status].includes(providerStatus));
+  }
+}
@@ -44,6 +44,20 @@ class CacheService {
     return this.cache.delete(key);
   }
 
+  /**
+   * Delete all keys starting with a prefix
+   */
+  deleteByPrefix(prefix: string): number {
+    let deleted = 0;
+    for (const key of this.cache.keys()) {
+      if (key.startsWith(prefix)) {
+        this.cache.delete(key);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
   /**
    * Clear all cache entries
    */
@@ -0,0 +1,372 @@
+import { sql } from '../config/database.ts';
+import type { OrderItem, OrderStatus } from '../models/Order.js';
+import {
+  ReservationStatus,
+  type StockAdjustmentInput,
+  type StockLevel,
+  type StockShortage
+} from '../models/Inventory.js';
+
+// Raised when available stock cannot cover a reservation
+export class InsufficientStockError extends Error {
+  override name = 'InsufficientStockError';
+
+  constructor(public readonly shortages: StockShortage[]) {
+    super(`Insufficient stock for ${shortages.map(shortage => shortage.sku).join(', ')}`);
+  }
+}
+
+// Only touch stock if the order is in this state (i.e. the preceding order update went through)
+export interface OrderStateGuard {
+  status: OrderStatus;
+  version: number;
+}
+
+// Only restock if the return is in this state (i.e. the preceding return update went through)
+export interface ReturnStateGuard {
+  returnId: string;
+  status: string;
+  version: number;
+}
+
+export class InventoryService {
+  constructor(private db: typeof sql) {}
+
+  /**
+   * Statements that reserve stock for the order with the given client_token.
+   * Must run inside a transaction together with (or after) the order insert;
+   * the inventory_reserved_within_on_hand check aborts it on a shortfall. Pass
+   * a guard for an existing order; only the order insert may go without one.
+   */
+  reservationStatements(
+    clientToken: string,
+    items: Pick<OrderItem, 'sku' | 'quantity'>[],
+    guard?: OrderStateGuard
+  ) {
+    const requested = this.toRequestedJson(items);
+    const guardStatus = guard?.status ?? null;
+    const guardVersion = guard?.version ?? null;
+
+    return [
+      this.db`
+        UPDATE inventory i
+        SET reserved = i.reserved + r.quantity, updated_at = NOW()
+        FROM (
+          SELECT sku, SUM(quantity)::int AS quantity
+          FROM jsonb_to_recordset(${requested}::jsonb) AS x(sku text, quantity int)
+          GROUP BY sku
+        ) r
+        WHERE i.sku = r.sku
+          AND (
+            ${guardStatus}::text IS NULL
+            OR EXISTS (
+              SELECT 1 FROM orders o
+              WHERE o.client_token = ${clientToken} AND o.status = ${guardStatus}::text AND o.version = ${guardVersion}::integer
+            )
+          )
+      `,
+      this.db`
+        INSERT INTO inventory_reservations (order_id, sku, quantity, status, created_at, updated_at)
+        SELECT o.id, r.sku, r.quantity, ${ReservationStatus.RESERVED}, NOW(), NOW()
+        FROM orders o
+        CROSS JOIN (
+          SELECT sku, SUM(quantity)::int AS quantity
+          FROM jsonb_to_recordset(${requested}::jsonb) AS x(sku text, quantity int)
+          GROUP BY sku
+        ) r
+        JOIN inventory i ON i.sku = r.sku
+        WHERE o.client_token = ${clientToken}
+          AND (${guardStatus}::text IS NULL OR (o.status = ${guardStatus}::text AND o.version = ${guardVersion}::integer))
+      `
+    ];
+  }
+
+  /**
+   * Statement that settles an order's open reservations: COMMITTED consumes the
+   * stock, RELEASED/EXPIRED hand it back. A no-op when the guard does not hold.
+   */
+  settlementStatement(
+    orderId: string,
+    outcome: Exclude<ReservationStatus, ReservationStatus.RESERVED>,
+    guard?: OrderStateGuard
+  ) {
+    const guardStatus = guard?.status ?? null;
+    const guardVersion = guard?.version ?? null;
+
+    return this.db`
+      WITH settled AS (
+        UPDATE inventory_reservations r
+        SET status = ${outcome}, updated_at = NOW()
+        WHERE r.order_id = ${orderId}
+          AND r.status = ${ReservationStatus.RESERVED}
+          AND (
+            ${guardStatus}::text IS NULL
+            OR EXISTS (
+              SELECT 1 FROM orders o
+              WHERE o.id = ${orderId} AND o.status = ${guardStatus}::text AND o.version = ${guardVersion}::integer
+            )
+          )
+        RETURNING r.sku, r.quantity
+      )
+      UPDATE inventory i
+      SET
+        reserved = i.reserved - s.quantity,
+        on_hand = i.on_hand - CASE WHEN ${outcome}::text = ${ReservationStatus.COMMITTED} THEN s.quantity ELSE 0 END,
+        updated_at = NOW()
+      FROM (SELECT sku, SUM(quantity)::int AS quantity FROM settled GROUP BY sku) s
+      WHERE i.sku = s.sku
+      RETURNING i.sku
+    `;
+  }
+
+  /**
+   * Statement that takes stock for a paid order whose reservation had already
+   * lapsed (expired or released before a late payment arrived): its items come
+   * straight off on_hand and are recorded as COMMITTED. A no-op while the order
+   * still holds a reservation, or when the guard does not hold. If the stock has
+   * gone meanwhile the inventory_reserved_within_on_hand check aborts the transaction.
+   */
+  recommitStatement(orderId: string, guard: OrderStateGuard) {
+    return this.db`
+      WITH needed AS (
+        SELECT x.sku, SUM(x.quantity)::int AS quantity
+        FROM orders o
+        CROSS JOIN jsonb_to_recordset(o.items) AS x(sku text, quantity int)
+        JOIN inventory i ON i.sku = x.sku
+        WHERE o.id = ${orderId} AND o.status = ${guard.status}::text AND o.version = ${guard.version}::integer
+          AND NOT EXISTS (
+            SELECT 1 FROM inventory_reservations r
+            WHERE r.order_id = o.id AND r.status IN (${ReservationStatus.RESERVED}, ${ReservationStatus.COMMITTED})
+          )
+        GROUP BY x.sku
+      ), recorded AS (
+        INSERT INTO inventory_reservations (order_id, sku, quantity, status, created_at, updated_at)
+        SELECT ${orderId}, sku, quantity, ${ReservationStatus.COMMITTED}, NOW(), NOW() FROM needed
+      )
+      UPDATE inventory i
+      SET on_hand = i.on_hand - n.quantity, updated_at = NOW()
+      FROM needed n
+      WHERE i.sku = n.sku
+      RETURNING i.sku
+    `;
+  }
+
+  /**
+   * Statements that put returned units back on hand and log the adjustment.
+   * SKUs without an inventory row are not stock-tracked and are skipped.
+   */
+  restockStatements(
+    items: Pick<OrderItem, 'sku' | 'quantity'>[],
+    reason: string,
+    actorId: string,
+    guard: ReturnStateGuard
+  ) {
+    const returned = this.toRequestedJson(items);
+
+    return [
+      this.db`
+        UPDATE inventory i
+        SET on_hand = i.on_hand + r.quantity, updated_at = NOW()
+        FROM (
+          SELECT sku, SUM(quantity)::int AS quantity
+          FROM jsonb_to_recordset(${returned}::jsonb) AS x(sku text, quantity int)
+          GROUP BY sku
+        ) r
+        WHERE i.sku = r.sku
+          AND EXISTS (
+            SELECT 1 FROM returns
+            WHERE id = ${guard.returnId} AND status = ${guard.status} AND version = ${guard.version}
+          )
+      `,
+      this.db`
+        INSERT INTO inventory_adjustments (sku, delta, reason, actor_id, created_at)
+        SELECT r.sku, r.quantity, ${reason}, ${actorId}, NOW()
+        FROM (
+          SELECT sku, SUM(quantity)::int AS quantity
+          FROM jsonb_to_recordset(${returned}::jsonb) AS x(sku text, quantity int)
+          GROUP BY sku
+        ) r
+        JOIN inventory i ON i.sku = r.sku
+        WHERE EXISTS (
+          SELECT 1 FROM returns
+          WHERE id = ${guard.returnId} AND status = ${guard.status} AND version = ${guard.version}
+        )
+      `
+    ];
+  }
+
+  /**
+   * Statement that reserves an order's items again after its reservation expired
+   * with its payment. A no-op while the order still holds a reservation, when it
+   * never had an expired one, or when the guard does not hold. If the stock has
+   * gone meanwhile the inventory_reserved_within_on_hand check aborts the transaction.
+   */
+  rereservationStatement(orderId: string, guard: OrderStateGuard) {
+    return this.db`
+      WITH needed AS (
+        SELECT x.sku, SUM(x.quantity)::int AS quantity
+        FROM orders o
+        CROSS JOIN jsonb_to_recordset(o.items) AS x(sku text, quantity int)
+        JOIN inventory i ON i.sku = x.sku
+        WHERE o.id = ${orderId} AND o.status = ${guard.status}::text AND o.version = ${guard.version}::integer
+          AND EXISTS (
+            SELECT 1 FROM inventory_reservations r
+            WHERE r.order_id = o.id AND r.status = ${ReservationStatus.EXPIRED}
+          )
+          AND NOT EXISTS (
+            SELECT 1 FROM inventory_reservations r
+            WHERE r.order_id = o.id AND r.status IN (${ReservationStatus.RESERVED}, ${ReservationStatus.COMMITTED})
+          )
+        GROUP BY x.sku
+      ), recorded AS (
+        INSERT INTO inventory_reservations (order_id, sku, quantity, status, created_at, updated_at)
+        SELECT ${orderId}, sku, quantity, ${ReservationStatus.RESERVED}, NOW(), NOW() FROM needed
+      )
+      UPDATE inventory i
+      SET reserved = i.reserved + n.quantity, updated_at = NOW()
+      FROM needed n
+      WHERE i.sku = n.sku
+      RETURNING i.sku
+    `;
+  }
+
+  /**
+   * Re-reserve stock for an order whose reservation expired with its payment.
+   * The order row is locked first, so of two concurrent calls the second sees
+   * the first one's reservation and leaves the stock alone.
+   */
+  async ensureReserved(orderId: string, items: Pick<OrderItem, 'sku' | 'quantity'>[], guard: OrderStateGuard): Promise<void> {
+    try {
+      await this.db.transaction([
+        this.db`SELECT id FROM orders WHERE id = ${orderId} FOR UPDATE`,
+        this.rereservationStatement(orderId, guard)
+      ]);
+    } catch (error) {
+      console.error('Error re-reserving stock:', error);
+      throw await this.translateStockError(error, items);
+    }
+  }
+
+  /**
+   * Release reservations of orders whose payments expired and that have no other pending payment
+   */
+  async expireReservations(orderIds: string[]): Promise<number> {
+    try {
+      const result = await this.db`
+        WITH expired AS (
+          UPDATE inventory_reservations r
+          SET status = ${ReservationStatus.EXPIRED}, updated_at = NOW()
+          FROM orders o
+          WHERE r.order_id = o.id
+            AND o.id::text = ANY(${orderIds})
+            AND r.status = ${ReservationStatus.RESERVED}
+            AND o.status IN ('PENDING', 'CONFIRMED')
+            AND NOT EXISTS (
+              SELECT 1 FROM payments p WHERE p.order_id = o.id::text AND p.status = 'PENDING'
+            )
+          RETURNING r.sku, r.quantity
+        )
+        UPDATE inventory i
+        SET reserved = i.reserved - s.quantity, updated_at = NOW()
+        FROM (SELECT sku, SUM(quantity)::int AS quantity FROM expired GROUP BY sku) s
+        WHERE i.sku = s.sku
+        RETURNING i.sku
+      `;
+
+      return result.length;
+    } catch (error) {
+      console.error('Error expiring reservations:', error);
+      throw error;
+    }
+  }
+
+  async getStockLevels(skus?: string[]): Promise<StockLevel[]> {
+    try {
+      const result = skus
+        ? await this.db`SELECT * FROM inventory WHERE sku = ANY(${skus}) ORDER BY sku`
+        : await this.db`SELECT * FROM inventory ORDER BY sku`;
+
+      return result.map(row => this.mapRowToStockLevel(row));
+    } catch (error) {
+      console.error('Error getting stock levels:', error);
+      throw error;
+    }
+  }
+
+  async adjustStock(input: StockAdjustmentInput): Promise<StockLevel> {
+    try {
+      const product = await this.db`SELECT sku FROM products WHERE sku = ${input.sku}`;
+      if (product.length === 0) {
+        throw new Error('Product not found');
+      }
+
+      const [, result] = await this.db.transaction([
+        this.db`
+          INSERT INTO inventory (sku, on_hand, reserved, updated_at)
+          VALUES (${input.sku}, 0, 0, NOW())
+          ON CONFLICT (sku) DO NOTHING
+        `,
+        this.db`
+          UPDATE inventory
+          SET on_hand = on_hand + ${input.delta}, updated_at = NOW()
+          WHERE sku = ${input.sku}
+          RETURNING *
+        `,
+        this.db`
+          INSERT INTO inventory_adjustments (sku, delta, reason, actor_id, created_at)
+          VALUES (${input.sku}, ${input.delta}, ${input.reason ?? null}, ${input.actorId ?? null}, NOW())
+        `
+      ]);
+
+      return this.mapRowToStockLevel(result![0]);
+    } catch (error: any) {
+      console.error('Error adjusting stock:', error);
+
+      if (error.code === '23514') {
+        throw new Error('Adjustment would leave less stock than is reserved');
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Work out which items cannot be covered by available stock
+   */
+  async findShortages(items: Pick<OrderItem, 'sku' | 'quantity'>[]): Promise<StockShortage[]> {
+    const requested = new Map<string, number>();
+    for (const item of items) {
+      requested.set(item.sku, (requested.get(item.sku) ?? 0) + item.quantity);
+    }
+
+    const levels = await this.getStockLevels([...requested.keys()]);
+
+    return levels
+      .filter(level => level.available < requested.get(level.sku)!)
+      .map(level => ({ sku: level.sku, requested: requested.get(level.sku)!, available: level.available }));
+  }
+
+  /**
+   * Turn a check-constraint failure into an InsufficientStockError
+   */
+  async translateStockError(error: any, items: Pick<OrderItem, 'sku' | 'quantity'>[]): Promise<Error> {
+    if (error?.code === '23514' && String(error.constraint ?? error.message).includes('inventory_reserved_within_on_hand')) {
+      return new InsufficientStockError(await this.findShortages(items));
+    }
+    return error;
+  }
+
+  private toRequestedJson(items: Pick<OrderItem, 'sku' | 'quantity'>[]): string {
+    return JSON.stringify(items.map(item => ({ sku: item.sku, quantity: item.quantity })));
+  }
+
+  private mapRowToStockLevel(row: any): StockLevel {
+    return {
+      sku: row.sku,
+      onHand: row.on_hand,
+      reserved: row.reserved,
+      available: row.on_hand - row.reserved,
+      updated_at: new Date(row.updated_at)
+    };
+  }
+}
@@ -0,0 +1,182 @@
+import { InvoiceType, type Invoice, type InvoiceFormat } from '../models/Invoice.js';
+import { Money } from '../models/Money.js';
+import { PAGE_HEIGHT, PdfDocument } from './pdfDocument.js';
+
+export const INVOICE_CONTENT_TYPES: Record<InvoiceFormat, string> = {
+  json: 'application/json; charset=utf-8',
+  html: 'text/html; charset=utf-8',
+  pdf: 'application/pdf'
+};
+
+const TITLES: Record<InvoiceType, string> = {
+  [InvoiceType.INVOICE]: 'Invoice',
+  [InvoiceType.CREDIT_NOTE]: 'Credit Note'
+};
+
+// "KES 1,500.00": major units with thousands separators
+const formatMoney = (money: Money): string => {
+  const [units = '', fraction] = Money.toMajorString(money).split('.');
+  const grouped = units.replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+  return `${money.currency} ${fraction === undefined ? grouped : `${grouped}.${fraction}`}`;
+};
+
+const formatDate = (date: Date): string => date.toISOString().slice(0, 10);
+
+const formatRate = (rate: number): string => `${Number((rate * 100).toFixed(2))}%`;
+
+const escapeHtml = (value: string): string =>
+  value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+/**
+ * Document facts shown under the title, in print order
+ */
+const referenceLines = (invoice: Invoice): [string, string][] => [
+  ['Number', invoice.number],
+  ['Date', formatDate(invoice.issued_at)],
+  ['Order', invoice.orderNumber ?? invoice.order_id],
+  ...(invoice.creditedInvoiceNumber ? [['Credits invoice', invoice.creditedInvoiceNumber] as [string, string]] : []),
+  ['Payment reference', invoice.payment.reference],
+  ...(invoice.payment.transactionId ? [['Transaction', invoice.payment.transactionId] as [string, string]] : []),
+  ...(invoice.payment.method ? [['Payment method', invoice.payment.method] as [string, string]] : []),
+  ...(invoice.refundReference ? [['Refund reference', invoice.refundReference] as [string, string]] : [])
+];
+
+/**
+ * Totals block, from subtotal down to the amount due (or credited)
+ */
+const totalLines = (invoice: Invoice): [string, string][] => [
+  ['Subtotal', formatMoney(invoice.subtotal)],
+  ...(invoice.discount.amount !== 0 ? [['Discount', `-${formatMoney(invoice.discount)}`] as [string, string]] : []),
+  ...(invoice.shipping.amount !== 0 ? [['Shipping', formatMoney(invoice.shipping)] as [string, string]] : []),
+  ['Taxable amount', formatMoney(invoice.tax.taxable)],
+  [`Tax (${formatRate(invoice.tax.rate)})`, formatMoney(invoice.tax.tax)],
+  [invoice.type === InvoiceType.CREDIT_NOTE ? 'Total credited' : 'Total paid', formatMoney(invoice.total)]
+];
+
+const partyLines = (party: { name: string; address: string[]; email?: string; taxId?: string }): string[] => [
+  party.name,
+  ...party.address,
+  ...(party.email ? [party.email] : []),
+  ...(party.taxId ? [`Tax ID: ${party.taxId}`] : [])
+];
+
+export const renderInvoiceHtml = (invoice: Invoice): string => {
+  const title = `${TITLES[invoice.type]} ${invoice.number}`;
+  const party = (heading: string, lines: string[]) =>
+    `<div class="party"><h2>${heading}</h2>${lines.map(line => `<div>${escapeHtml(line)}</div>`).join('')}</div>`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: Helvetica, Arial, sans-serif; font-size: 14px; margin: 40px; color: #222; }
+  h1 { margin-bottom: 4px; }
+  h2 { font-size: 12px; text-transform: uppercase; color: #666; margin: 0 0 4px; }
+  .parties { display: flex; gap: 80px; margin: 24px 0; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { padding: 6px 8px; border-bottom: 1px solid #ddd; text-align: left; }
+  .num { text-align: right; }
+  .totals { margin-top: 16px; width: auto; margin-left: auto; }
+  .totals tr:last-child td { font-weight: bold; border-top: 2px solid #222; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(TITLES[invoice.type])}</h1>
+<table class="references">
+${referenceLines(invoice).map(([label, value]) => `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`).join('\n')}
+</table>
+<div class="parties">
+${party('From', partyLines(invoice.seller))}
+${party('Bill to', partyLines(invoice.buyer))}
+</div>
+<table class="lines">
+<thead><tr><th>SKU</th><th>Description</th><th class="num">Qty</th><th class="num">Unit price</th><th class="num">Amount</th></tr></thead>
+<tbody>
+${invoice.lines.map(line => `<tr><td>${escapeHtml(line.sku)}</td><td>${escapeHtml(line.description)}</td><td class="num">${line.quantity}</td><td class="num">${formatMoney(line.unitPrice)}</td><td class="num">${formatMoney(line.lineTotal)}</td></tr>`).join('\n')}
+</tbody>
+</table>
+<table class="totals">
+${totalLines(invoice).map(([label, value]) => `<tr><td>${escapeHtml(label)}</td><td class="num">${escapeHtml(value)}</td></tr>`).join('\n')}
+</table>
+</body>
+</html>
+`;
+};
+
+export const renderInvoicePdf = (invoice: Invoice): Buffer => {
+  const pdf = new PdfDocument();
+  const left = 50;
+  const right = 545;
+  const bottom = 60;
+  let y = PAGE_HEIGHT - 60;
+
+  // Start a new page when the next block would run into the bottom margin
+  const ensureSpace = (height: number) => {
+    if (y - height < bottom) {
+      pdf.addPage();
+      y = PAGE_HEIGHT - 60;
+    }
+  };
+
+  pdf.text(left, y, TITLES[invoice.type], { size: 20, font: 'bold' });
+  y -= 28;
+
+  for (const [label, value] of referenceLines(invoice)) {
+    pdf.text(left, y, label, { size: 9, font: 'bold' });
+    pdf.text(left + 110, y, value, { size: 9 });
+    y -= 13;
+  }
+  y -= 14;
+
+  const seller = partyLines(invoice.seller);
+  const buyer = partyLines(invoice.buyer);
+  pdf.text(left, y, 'FROM', { size: 8, font: 'bold' });
+  pdf.text(300, y, 'BILL TO', { size: 8, font: 'bold' });
+  y -= 13;
+  for (let index = 0; index < Math.max(seller.length, buyer.length); index++) {
+    if (seller[index]) pdf.text(left, y, seller[index]!, { size: 9 });
+    if (buyer[index]) pdf.text(300, y, buyer[index]!, { size: 9 });
+    y -= 12;
+  }
+  y -= 18;
+
+  const header = () => {
+    pdf.text(left, y, 'SKU', { size: 9, font: 'bold' });
+    pdf.text(140, y, 'Description', { size: 9, font: 'bold' });
+    pdf.text(355, y, 'Qty', { size: 9, font: 'bold', align: 'right' });
+    pdf.text(450, y, 'Unit price', { size: 9, font: 'bold', align: 'right' });
+    pdf.text(right, y, 'Amount', { size: 9, font: 'bold', align: 'right' });
+    y -= 6;
+    pdf.rule(left, right, y);
+    y -= 13;
+  };
+
+  header();
+  for (const line of invoice.lines) {
+    if (y - 14 < bottom) {
+      ensureSpace(14);
+      header();
+    }
+    pdf.text(left, y, line.sku, { size: 9 });
+    pdf.text(140, y, line.description.slice(0, 45), { size: 9 });
+    pdf.text(355, y, String(line.quantity), { size: 9, align: 'right' });
+    pdf.text(450, y, formatMoney(line.unitPrice), { size: 9, align: 'right' });
+    pdf.text(right, y, formatMoney(line.lineTotal), { size: 9, align: 'right' });
+    y -= 14;
+  }
+
+  const totals = totalLines(invoice);
+  ensureSpace(totals.length * 14 + 10);
+  pdf.rule(left, right, y + 8);
+  y -= 6;
+  totals.forEach(([label, value], index) => {
+    const font = index === totals.length - 1 ? 'bold' : 'regular';
+    pdf.text(400, y, label, { size: 9, font, align: 'right' });
+    pdf.text(right, y, value, { size: 9, font, align: 'right' });
+    y -= 14;
+  });
+
+  return pdf.toBuffer();
+};
@@ -0,0 +1,299 @@
+import { sql } from '../config/database.ts';
+import type { Order } from '../models/Order.js';
+import type { ReturnRequest } from '../models/Return.js';
+import {
+  INVOICE_NUMBER_PREFIXES,
+  InvoiceType,
+  type BuyerDetails,
+  type Invoice,
+  type InvoiceDocument,
+  type InvoiceLine,
+  type SellerDetails
+} from '../models/Invoice.js';
+import { Money } from '../models/Money.js';
+import { OrderService } from './orderService.js';
+import type { ReturnStateGuard } from './inventoryService.js';
+
+// Payment statuses (payments table) for which the order has been paid and can be invoiced
+const SETTLED_PAYMENT_STATUSES = ['SUCCESS', 'PARTIALLY_REFUNDED', 'REFUNDED'];
+
+// Seller block printed on every document; the address is '|'-separated lines
+export const sellerDetails: SellerDetails = {
+  name: process.env.SELLER_NAME || 'Order Management Ltd',
+  address: (process.env.SELLER_ADDRESS || '').split('|').map(line => line.trim()).filter(Boolean),
+  ...(process.env.SELLER_TAX_ID && { taxId: process.env.SELLER_TAX_ID }),
+  ...(process.env.SELLER_EMAIL && { email: process.env.SELLER_EMAIL })
+};
+
+// What a credit note documents: a refund of returned items against the order's invoice
+export interface CreditNoteInput {
+  order: Order;
+  invoice: Invoice;
+  returnRequest: ReturnRequest;
+  refundId: string;
+  paymentId: string;
+  amount: Money;
+}
+
+// Database references stored alongside the document
+interface InvoiceRefs {
+  orderId: string;
+  paymentId: string;
+  creditedInvoiceId?: string;
+  returnId?: string;
+  refundId?: string;
+}
+
+export class InvoiceService {
+  private orders: OrderService;
+
+  constructor(private db: typeof sql) {
+    this.orders = new OrderService(db);
+  }
+
+  /**
+   * Issue the order's invoice once it has a settled payment, or return the one already
+   * issued. Safe to repeat: the payment paths call it, and so does the download, which
+   * catches an invoice whose issue failed after payment. Returns null while the order is unpaid.
+   */
+  async issueInvoice(orderId: string): Promise<Invoice | null> {
+    try {
+      const existing = await this.getInvoice(orderId);
+      if (existing) {
+        return existing;
+      }
+
+      const paymentResult = await this.db`
+        SELECT payment_id, transaction_id, payment_method, processed_at
+        FROM payments
+        WHERE order_id = ${orderId}::text AND status = ANY(${SETTLED_PAYMENT_STATUSES})
+        ORDER BY created_at DESC
+        LIMIT 1
+      `;
+
+      if (paymentResult.length === 0) {
+        return null;
+      }
+
+      const order = await this.orders.getOrderById(orderId);
+      if (!order) {
+        throw new Error('Order not found');
+      }
+
+      const payment = paymentResult[0]!;
+      const zero = Money.zero(order.currency);
+      const lines = order.items.map(item => this.toLine(item.sku, item.productName, item.variant, item.quantity, item.price));
+      const subtotal = order.subtotal ?? Money.sum(lines.map(line => line.lineTotal), order.currency);
+      const discount = order.discountAmount ?? zero;
+      const shipping = order.shippingAmount ?? zero;
+
+      const document: InvoiceDocument = {
+        type: InvoiceType.INVOICE,
+        order_id: orderId,
+        orderNumber: order.orderNumber,
+        seller: sellerDetails,
+        buyer: await this.buyerFor(order),
+        currency: order.currency,
+        lines,
+        subtotal,
+        discount,
+        shipping,
+        tax: {
+          rate: order.taxRate ?? 0,
+          taxable: Money.add(Money.subtract(subtotal, discount), shipping),
+          tax: order.taxAmount ?? zero
+        },
+        total: order.total_amount,
+        payment: {
+          reference: payment.payment_id,
+          ...(payment.transaction_id && { transactionId: payment.transaction_id }),
+          ...(payment.payment_method && { method: payment.payment_method }),
+          ...(payment.processed_at && { paidAt: new Date(payment.processed_at) })
+        }
+      };
+
+      try {
+        await this.insertStatement(document, { orderId, paymentId: payment.payment_id });
+      } catch (error: any) {
+        // Issued concurrently (e.g. a webhook retry); keep the one that won
+        if (error.code !== '23505') {
+          throw error;
+        }
+      }
+
+      return this.getInvoice(orderId);
+    } catch (error) {
+      console.error('Error issuing invoice:', error);
+      throw error;
+    }
+  }
+
+  async getInvoice(orderId: string): Promise<Invoice | null> {
+    try {
+      const result = await this.db`
+        SELECT * FROM invoices WHERE order_id = ${orderId} AND type = ${InvoiceType.INVOICE}
+      `;
+
+      return result.length > 0 ? this.mapRowToInvoice(result[0]) : null;
+    } catch (error) {
+      console.error('Error getting invoice:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Credit notes of an order, oldest first
+   */
+  async getCreditNotes(orderId: string): Promise<Invoice[]> {
+    try {
+      const result = await this.db`
+        SELECT * FROM invoices
+        WHERE order_id = ${orderId} AND type = ${InvoiceType.CREDIT_NOTE}
+        ORDER BY issued_at, id
+      `;
+
+      return result.map(row => this.mapRowToInvoice(row));
+    } catch (error) {
+      console.error('Error getting credit notes:', error);
+      throw error;
+    }
+  }
+
+  async getCreditNote(orderId: string, number: string): Promise<Invoice | null> {
+    try {
+      const result = await this.db`
+        SELECT * FROM invoices
+        WHERE order_id = ${orderId} AND type = ${InvoiceType.CREDIT_NOTE} AND number = ${number}
+      `;
+
+      return result.length > 0 ? this.mapRowToInvoice(result[0]) : null;
+    } catch (error) {
+      console.error('Error getting credit note:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Statement that issues a credit note for a return's refund. Must run in the
+   * refund's transaction; a no-op when the guard does not hold.
+   */
+  creditNoteStatement(input: CreditNoteInput, guard: ReturnStateGuard) {
+    const { order, invoice, returnRequest, amount } = input;
+    const lines = returnRequest.items.map(item => {
+      const ordered = order.items.find(line => line.sku === item.sku && line.variant === item.variant);
+      return this.toLine(item.sku, ordered?.productName, item.variant, item.quantity, item.unitPrice);
+    });
+    const subtotal = Money.sum(lines.map(line => line.lineTotal), order.currency);
+
+    // The refund already includes the lines' share of discount and tax; split the tax back out
+    const taxRate = invoice.tax.rate;
+    const taxable = Money.multiply(amount, 1 / (1 + taxRate));
+    const discount = Money.subtract(subtotal, Money.min(taxable, subtotal));
+
+    const document: InvoiceDocument = {
+      type: InvoiceType.CREDIT_NOTE,
+      order_id: order.id!,
+      orderNumber: order.orderNumber,
+      creditedInvoiceNumber: invoice.number,
+      seller: sellerDetails,
+      buyer: invoice.buyer,
+      currency: order.currency,
+      lines,
+      subtotal,
+      discount,
+      shipping: Money.zero(order.currency),
+      tax: { rate: taxRate, taxable, tax: Money.subtract(amount, taxable) },
+      total: amount,
+      payment: { reference: input.paymentId },
+      refundReference: input.refundId
+    };
+
+    return this.insertStatement(document, {
+      orderId: order.id!,
+      paymentId: input.paymentId,
+      creditedInvoiceId: invoice.id,
+      returnId: returnRequest.id,
+      refundId: input.refundId
+    }, guard);
+  }
+
+  /**
+   * Take the next number in the document's series and store the document, in one
+   * statement so a failed insert never leaves a gap in the numbering
+   */
+  private insertStatement(document: InvoiceDocument, refs: InvoiceRefs, guard?: ReturnStateGuard) {
+    const prefix = INVOICE_NUMBER_PREFIXES[document.type];
+    const guardReturnId = guard?.returnId ?? null;
+    const guardStatus = guard?.status ?? null;
+    const guardVersion = guard?.version ?? null;
+
+    return this.db`
+      WITH numbered AS (
+        INSERT INTO invoice_number_series (series, last_number)
+        SELECT ${prefix} || '-' || to_char(NOW(), 'YYYY'), 1
+        WHERE ${guardReturnId}::text IS NULL OR EXISTS (
+          SELECT 1 FROM returns
+          WHERE id = ${guardReturnId}::integer AND status = ${guardStatus}::text AND version = ${guardVersion}::integer
+        )
+        ON CONFLICT (series) DO UPDATE SET last_number = invoice_number_series.last_number + 1
+        RETURNING series, last_number
+      )
+      INSERT INTO invoices (
+        number, type, order_id, credited_invoice_id, return_id, payment_id, refund_id,
+        currency, total_amount, document, issued_at
+      )
+      SELECT
+        series || '-' || lpad(last_number::text, 6, '0'), ${document.type}, ${refs.orderId},
+        ${refs.creditedInvoiceId ?? null}::integer, ${refs.returnId ?? null}::integer, ${refs.paymentId},
+        ${refs.refundId ?? null}, ${document.currency}, ${document.total.amount}::bigint,
+        ${JSON.stringify(document)}::jsonb, NOW()
+      FROM numbered
+      RETURNING id
+    `;
+  }
+
+  private toLine(sku: string, productName: string | undefined, variant: string | undefined, quantity: number, unitPrice: Money): InvoiceLine {
+    return {
+      sku,
+      description: [productName ?? sku, variant].filter(Boolean).join(' - '),
+      quantity,
+      unitPrice,
+      lineTotal: Money.multiply(unitPrice, quantity)
+    };
+  }
+
+  private async buyerFor(order: Order): Promise<BuyerDetails> {
+    const userResult = await this.db`SELECT email FROM users WHERE id = ${order.user_id}`;
+    const email: string | undefined = userResult[0]?.email;
+    const address = order.shippingAddress;
+
+    return {
+      name: address ? `${address.firstName} ${address.lastName}` : email ?? `Customer ${order.user_id}`,
+      ...(email && { email }),
+      address: address
+        ? [
+            address.company,
+            address.addressLine1,
+            address.addressLine2,
+            [address.city, address.state, address.postalCode].filter(Boolean).join(', '),
+            address.country
+          ].filter((line): line is string => Boolean(line))
+        : []
+    };
+  }
+
+  private mapRowToInvoice(row: any): Invoice {
+    const document = typeof row.document === 'string' ? JSON.parse(row.document) : row.document;
+
+    return {
+      ...document,
+      id: String(row.id),
+      number: row.number,
+      payment: {
+        ...document.payment,
+        ...(document.payment.paidAt && { paidAt: new Date(document.payment.paidAt) })
+      },
+      issued_at: new Date(row.issued_at)
+    };
+  }
+}
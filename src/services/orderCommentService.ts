@@ -0,0 +1,68 @@
+import { sql } from '../config/database.ts';
+import type { OrderComment, UserRole } from '../models/Order.js';
+
+export class OrderCommentService {
+  constructor(private db: typeof sql) {}
+
+  /**
+   * Append a staff comment to an order's internal thread
+   */
+  async addComment(orderId: string, authorId: string, authorRole: UserRole, body: string): Promise<OrderComment> {
+    try {
+      const order = await this.db`SELECT id FROM orders WHERE id = ${orderId}`;
+      if (order.length === 0) {
+        throw new Error('Order not found');
+      }
+
+      const result = await this.db`
+        WITH created AS (
+          INSERT INTO order_comments (order_id, author_id, author_role, body, created_at)
+          VALUES (${orderId}, ${authorId}, ${authorRole}, ${body}, NOW())
+          RETURNING *
+        )
+        SELECT c.*, u.email AS author_email
+        FROM created c
+        LEFT JOIN users u ON u.id = c.author_id
+      `;
+
+      return this.mapRowToComment(result[0]);
+    } catch (error) {
+      console.error('Error adding order comment:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * An order's internal thread, oldest first
+   */
+  async getComments(orderId: string): Promise<OrderComment[]> {
+    try {
+      const result = await this.db`
+        SELECT c.*, u.email AS author_email
+        FROM order_comments c
+        LEFT JOIN users u ON u.id = c.author_id
+        WHERE c.order_id = ${orderId}
+        ORDER BY c.created_at, c.id
+      `;
+
+      return result.map(row => this.mapRowToComment(row));
+    } catch (error) {
+      console.error('Error getting order comments:', error);
+      throw error;
+    }
+  }
+
+  private mapRowToComment(row: any): OrderComment {
+    return {
+      id: String(row.id),
+      order_id: String(row.order_id),
+      author: {
+        id: String(row.author_id),
+        ...(row.author_email && { email: row.author_email }),
+        role: row.author_role
+      },
+      body: row.body,
+      created_at: new Date(row.created_at)
+    };
+  }
+}
@@ -0,0 +1,192 @@
+import { sql } from '../config/database.ts';
+import { OrderStatus } from '../models/Order.js';
+import { OrderService } from './orderService.js';
+import { InvalidStatusTransitionError } from './orderStateMachine.js';
+
+/**
+ * Whole-number setting, falling back to the default (with a warning) when it is
+ * missing, not a number or below the minimum
+ */
+const parseSetting = (value: string | undefined, fallback: number, min = 0): number => {
+  if (value === undefined || value.trim() === '') {
+    return fallback;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min) {
+    console.warn(`Invalid order expiry setting "${value}"; using ${fallback}`);
+    return fallback;
+  }
+  return parsed;
+};
+
+// Minutes an order may stay unpaid before the sweep cancels it (0 disables the sweep)
+export const ORDER_EXPIRY_MINUTES = parseSetting(process.env.ORDER_EXPIRY_MINUTES, 60);
+
+// How often each instance runs the sweep
+export const ORDER_EXPIRY_SWEEP_SECONDS = parseSetting(process.env.ORDER_EXPIRY_SWEEP_SECONDS, 60, 1);
+
+// Candidate orders read per batch; the sweep repeats until a batch comes back short
+const ORDER_EXPIRY_BATCH_SIZE = parseSetting(process.env.ORDER_EXPIRY_BATCH_SIZE, 100, 1);
+
+// Unpaid statuses from which the lifecycle table allows CANCELLED
+const EXPIRABLE_STATUSES = [OrderStatus.PENDING, OrderStatus.CONFIRMED];
+
+// Recorded on the status history entry of every expired order
+export const ORDER_EXPIRY_REASON = 'expired';
+
+export interface OrderExpirySweepResult {
+  orderIds: string[];
+  paymentsExpired: number;
+  // Orders another writer moved on (or another instance expired) first, or that got an open payment
+  skipped: number;
+}
+
+export class OrderExpiryService {
+  private timer: NodeJS.Timeout | undefined;
+  private running = false;
+  private orders: OrderService;
+
+  constructor(private db: typeof sql) {
+    this.orders = new OrderService(db);
+  }
+
+  /**
+   * Cancel orders left unpaid for longer than the expiry window. Their overdue
+   * pending payments are expired first; orders with a payment still pending or
+   * in progress are left alone until that payment settles or expires.
+   */
+  async expireUnpaidOrders(
+    olderThanMinutes: number = ORDER_EXPIRY_MINUTES,
+    batchSize: number = ORDER_EXPIRY_BATCH_SIZE
+  ): Promise<OrderExpirySweepResult> {
+    try {
+      const summary: OrderExpirySweepResult = {
+        orderIds: [],
+        paymentsExpired: await this.expireOverduePayments(olderThanMinutes),
+        skipped: 0
+      };
+
+      for (;;) {
+        const candidates = await this.db`
+          SELECT o.id, o.version
+          FROM orders o
+          WHERE o.status = ANY(${EXPIRABLE_STATUSES})
+            AND o.created_at < NOW() - make_interval(mins => ${olderThanMinutes}::integer)
+            AND NOT EXISTS (
+              SELECT 1 FROM payments p
+              WHERE p.order_id = o.id::text AND p.status IN ('PENDING', 'PROCESSING')
+            )
+          ORDER BY o.created_at
+          LIMIT ${batchSize}
+        `;
+
+        const expired = await this.expireBatch(candidates);
+        summary.orderIds.push(...expired);
+        summary.skipped += candidates.length - expired.length;
+
+        // Stop on a short batch, or on one where every order was skipped, so the sweep cannot spin
+        if (candidates.length < batchSize || expired.length === 0) {
+          return summary;
+        }
+      }
+    } catch (error) {
+      console.error('Error expiring unpaid orders:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Run the sweep every ORDER_EXPIRY_SWEEP_SECONDS. Safe on every instance at
+   * once: each cancellation is guarded by the order's version (see expireBatch).
+   */
+  start(intervalSeconds: number = ORDER_EXPIRY_SWEEP_SECONDS): void {
+    if (this.timer || ORDER_EXPIRY_MINUTES <= 0) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      void this.sweep();
+    }, intervalSeconds * 1000);
+
+    // Do not keep the process alive just for the sweep
+    this.timer.unref();
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  private async sweep(): Promise<void> {
+    // A slow sweep must not overlap with the next tick on the same instance
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      const result = await this.expireUnpaidOrders();
+      if (result.orderIds.length > 0) {
+        console.log(
+          `Expired ${result.orderIds.length} unpaid orders ` +
+          `(${result.paymentsExpired} payments expired, ${result.skipped} skipped)`
+        );
+      }
+    } catch (error) {
+      console.error('Order expiry sweep failed:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Pending payments of overdue orders whose payment window has closed; they no
+   * longer hold the order open
+   */
+  private async expireOverduePayments(olderThanMinutes: number): Promise<number> {
+    const expired = await this.db`
+      UPDATE payments p
+      SET status = 'CANCELLED', failure_reason = 'Payment expired', updated_at = NOW()
+      FROM orders o
+      WHERE p.order_id = o.id::text
+        AND p.status = 'PENDING'
+        AND p.expires_at <= NOW()
+        AND o.status = ANY(${EXPIRABLE_STATUSES})
+        AND o.created_at < NOW() - make_interval(mins => ${olderThanMinutes}::integer)
+      RETURNING p.payment_id
+    `;
+
+    return expired.length;
+  }
+
+  /**
+   * Cancel each order through the lifecycle table, so the history entry and the
+   * stock release come from the CANCELLED transition. The version guard makes
+   * concurrent sweeps (and any other writer) safe: the loser is skipped. The cancel
+   * also requires that the order still has no open payment, so a payment opened or
+   * claimed for capture since the candidates were read keeps the order alive.
+   */
+  private async expireBatch(candidates: Record<string, any>[]): Promise<string[]> {
+    const expired: string[] = [];
+
+    for (const candidate of candidates) {
+      const orderId = String(candidate.id);
+      try {
+        await this.orders.updateOrderStatus(orderId, OrderStatus.CANCELLED, candidate.version, {
+          actor: { type: 'system', id: 'order-expiry' },
+          reason: ORDER_EXPIRY_REASON,
+          requireNoOpenPayment: true
+        });
+        expired.push(orderId);
+      } catch (error: any) {
+        if (error instanceof InvalidStatusTransitionError || error.message?.includes('modified by another process')) {
+          continue;
+        }
+        throw error;
+      }
+    }
+
+    return expired;
+  }
+}
@@ -0,0 +1,110 @@
+import type { Order, OrderItem } from '../models/Order.js';
+import { Money } from '../models/Money.js';
+
+export type ExportFormat = 'csv' | 'ndjson';
+
+// One row per order, or one row per line item (order columns repeated)
+export type ExportRowMode = 'order' | 'item';
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8'
+};
+
+type ExportRow = Record<string, string | number | null>;
+
+const iso = (date?: Date) => (date ? date.toISOString() : null);
+
+// Amounts are exported as integer minor units; the currency column says which
+const minor = (money?: Money) => (money ? money.amount : null);
+
+const orderColumns = (order: Order): ExportRow => ({
+  order_id: order.id,
+  order_number: order.orderNumber,
+  user_id: order.user_id,
+  status: order.status,
+  currency: order.currency,
+  subtotal: minor(order.subtotal),
+  discount_amount: minor(order.discountAmount),
+  shipping_amount: minor(order.shippingAmount),
+  tax_amount: minor(order.taxAmount),
+  total_amount: order.total_amount.amount,
+  shipping_method: order.shippingMethod ?? null,
+  created_at: iso(order.created_at),
+  updated_at: iso(order.updated_at),
+  paid_at: iso(order.paidAt),
+  shipped_at: iso(order.shippedAt),
+  delivered_at: iso(order.deliveredAt)
+});
+
+const itemColumns = (order: Order, item: OrderItem): ExportRow => ({
+  order_id: order.id,
+  order_number: order.orderNumber,
+  user_id: order.user_id,
+  status: order.status,
+  currency: order.currency,
+  created_at: iso(order.created_at),
+  sku: item.sku,
+  variant: item.variant ?? null,
+  product_name: item.productName ?? null,
+  quantity: item.quantity,
+  unit_price: item.price.amount,
+  total_price: (item.totalPrice ?? Money.multiply(item.price, item.quantity)).amount
+});
+
+const ROW_BUILDERS: Record<ExportRowMode, (order: Order) => ExportRow[]> = {
+  order: order => [orderColumns(order)],
+  item: order => order.items.map(item => itemColumns(order, item))
+};
+
+// CSV header order; must list the keys produced by the row builders above
+const CSV_COLUMNS: Record<ExportRowMode, string[]> = {
+  order: [
+    'order_id', 'order_number', 'user_id', 'status', 'currency', 'subtotal', 'discount_amount', 'shipping_amount',
+    'tax_amount', 'total_amount', 'shipping_method', 'created_at', 'updated_at', 'paid_at', 'shipped_at', 'delivered_at'
+  ],
+  item: [
+    'order_id', 'order_number', 'user_id', 'status', 'currency', 'created_at', 'sku', 'variant', 'product_name',
+    'quantity', 'unit_price', 'total_price'
+  ]
+};
+
+// RFC 4180 quoting; leading =+-@ are prefixed so spreadsheets do not evaluate them as formulas
+const csvCell = (value: string | number | null): string => {
+  if (value === null) return '';
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export interface OrderExporter {
+  contentType: string;
+  header(): string;
+  serialize(orders: Order[]): string;
+}
+
+/**
+ * Serializer for an export: call header() once, then serialize() per batch of orders
+ */
+export const createOrderExporter = (format: ExportFormat, rowMode: ExportRowMode): OrderExporter => {
+  const buildRows = ROW_BUILDERS[rowMode];
+
+  if (format === 'ndjson') {
+    return {
+      contentType: EXPORT_CONTENT_TYPES.ndjson,
+      header: () => '',
+      serialize: orders => orders.flatMap(buildRows).map(row => `${JSON.stringify(row)}\n`).join('')
+    };
+  }
+
+  const columns = CSV_COLUMNS[rowMode];
+
+  return {
+    contentType: EXPORT_CONTENT_TYPES.csv,
+    header: () => `${columns.join(',')}\r\n`,
+    serialize: orders => orders
+      .flatMap(buildRows)
+      .map(row => `${columns.map(column => csvCell(row[column] ?? null)).join(',')}\r\n`)
+      .join('')
+  };
+};
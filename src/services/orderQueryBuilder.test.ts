@@ -0,0 +1,83 @@
+import {
+  InvalidCursorError,
+  OrderCursor,
+  WhereBuilder,
+  applyKeyset,
+  resolveOrderSort,
+  type ResolvedSortKey
+} from './orderQueryBuilder.js';
+
+const byNewest = resolveOrderSort();
+const byTotal = resolveOrderSort([{ field: 'total_amount', direction: 'DESC' }, { field: 'order_number', direction: 'ASC' }]);
+
+// A cursor as a client could forge it
+const forge = (position: unknown): string => Buffer.from(JSON.stringify(position)).toString('base64url');
+
+describe('resolveOrderSort', () => {
+  it('defaults to newest first with id as the tie-breaker', () => {
+    expect(byNewest).toEqual([
+      { field: 'created_at', direction: 'DESC' },
+      { field: 'id', direction: 'DESC' }
+    ]);
+  });
+});
+
+describe('OrderCursor', () => {
+  it('decodes the cursors it encodes', () => {
+    const values = ['2026-03-01 09:15:00.123456', '42'];
+    const cursor = OrderCursor.encode({ cursor_values: values }, byNewest, 'next');
+
+    expect(OrderCursor.decode(cursor, byNewest)).toEqual({ sort: '-created_at,-id', values, direction: 'next' });
+  });
+
+  it('accepts values of every sort column type', () => {
+    const cursor = OrderCursor.encode({ cursor_values: ['150000', 'ORD-2026-000123', '7'] }, byTotal, 'prev');
+
+    expect(OrderCursor.decode(cursor, byTotal).values).toEqual(['150000', 'ORD-2026-000123', '7']);
+  });
+
+  it('rejects garbage and cursors issued for another sort', () => {
+    const cursor = OrderCursor.encode({ cursor_values: ['150000', 'ORD-2026-000123', '7'] }, byTotal, 'next');
+
+    expect(() => OrderCursor.decode('not-a-cursor', byNewest)).toThrow(InvalidCursorError);
+    expect(() => OrderCursor.decode(cursor, byNewest)).toThrow(InvalidCursorError);
+  });
+
+  it.each<[string, unknown[], ResolvedSortKey[]]>([
+    ['a malformed timestamp', ['yesterday', '42'], byNewest],
+    ['an impossible date', ['2026-02-30 10:00:00', '42'], byNewest],
+    ['a non-numeric id', ['2026-03-01 09:15:00', '42 OR 1=1'], byNewest],
+    ['an id out of integer range', ['2026-03-01 09:15:00', '2147483648'], byNewest],
+    ['a fractional amount', ['1500.50', 'ORD-2026-000123', '7'], byTotal],
+    ['an amount out of bigint range', ['9223372036854775808', 'ORD-2026-000123', '7'], byTotal],
+    ['a NUL character in text', ['150000', 'ORD\u0000', '7'], byTotal],
+    ['a non-string value', [150000, 'ORD-2026-000123', '7'], byTotal],
+    ['too few values', ['150000', '7'], byTotal]
+  ])('rejects %s', (_case, values, keys) => {
+    const signature = keys.map(key => `${key.direction === 'DESC' ? '-' : ''}${key.field}`).join(',');
+
+    expect(() => OrderCursor.decode(forge({ sort: signature, values, direction: 'next' }), keys))
+      .toThrow(InvalidCursorError);
+  });
+});
+
+describe('applyKeyset', () => {
+  it('uses a row comparison when every key sorts the same way', () => {
+    const where = new WhereBuilder();
+    applyKeyset(where, byNewest, ['2026-03-01 09:15:00', '42'], false);
+
+    expect(where.toSql()).toBe('(created_at, id) < ($1::timestamp, $2::integer)');
+    expect(where.params).toEqual(['2026-03-01 09:15:00', '42']);
+  });
+
+  it('expands mixed directions and flips them when paging backwards', () => {
+    const where = new WhereBuilder();
+    applyKeyset(where, byTotal, ['150000', 'ORD-2026-000123', '7'], true);
+
+    expect(where.toSql()).toBe(
+      '((total_amount > $1::bigint) OR ' +
+      '(total_amount = $1::bigint AND order_number < $2::text) OR ' +
+      '(total_amount = $1::bigint AND order_number = $2::text AND id > $3::integer))'
+    );
+  });
+});
@@ -0,0 +1,243 @@
+import { OrderSearchMode, PaymentStatus, type OrderFilters, type OrderSortField, type OrderSortKey } from '../models/Order.js';
+
+// Composable WHERE clause with positional ($1, $2, ...) parameters
+export class WhereBuilder {
+  private conditions: string[] = [];
+  readonly params: unknown[] = [];
+
+  /**
+   * Register a parameter value and return its placeholder
+   */
+  param(value: unknown): string {
+    this.params.push(value);
+    return `$${this.params.length}`;
+  }
+
+  /**
+   * Add a condition; all conditions are AND-ed together
+   */
+  and(condition: string): this {
+    this.conditions.push(condition);
+    return this;
+  }
+
+  toSql(): string {
+    return this.conditions.length > 0 ? this.conditions.join(' AND ') : 'TRUE';
+  }
+}
+
+// Payment provider statuses (payments table) that make up each order-level payment status
+export const PAYMENT_STATUS_SOURCES: Record<PaymentStatus, string[]> = {
+  [PaymentStatus.PENDING]: ['PENDING', 'PROCESSING'],
+  [PaymentStatus.PAID]: ['SUCCESS'],
+  [PaymentStatus.FAILED]: ['FAILED', 'CANCELLED'],
+  [PaymentStatus.REFUNDED]: ['REFUNDED'],
+  [PaymentStatus.PARTIALLY_REFUNDED]: ['PARTIALLY_REFUNDED']
+};
+
+// Escape LIKE wildcards so user input only ever matches literally
+const escapeLike = (value: string): string => value.replace(/[\\%_]/g, match => `\\${match}`);
+
+// One entry per search mode; each is served by an index from migrations/012_order_item_search.sql
+const ORDER_SEARCHES: Record<OrderSearchMode, (where: WhereBuilder, term: string) => void> = {
+  [OrderSearchMode.SKU]: (where, term) =>
+    where.and(`items @> ${where.param(JSON.stringify([{ sku: term }]))}::jsonb`),
+  [OrderSearchMode.SKU_PREFIX]: (where, term) =>
+    where.and(`order_item_skus(items) LIKE ${where.param(`%|${escapeLike(term)}%`)}`),
+  [OrderSearchMode.PRODUCT_NAME]: (where, term) =>
+    where.and(`order_item_names(items) ILIKE ${where.param(`%${escapeLike(term)}%`)}`),
+  [OrderSearchMode.ORDER_NUMBER]: (where, term) =>
+    where.and(`order_number LIKE ${where.param(`${escapeLike(term.toUpperCase())}%`)}`)
+};
+
+type FilterApplier<K extends keyof OrderFilters> = (
+  where: WhereBuilder,
+  value: NonNullable<OrderFilters[K]>
+) => void;
+
+// One entry per filter: adding a filter adds one line here, not another code path
+const ORDER_FILTERS: { [K in keyof OrderFilters]?: FilterApplier<K> } = {
+  user_id: (where, value) => where.and(`user_id = ${where.param(value)}`),
+  status: (where, value) => where.and(`status = ${where.param(value)}`),
+  currency: (where, value) => where.and(`currency = ${where.param(value)}`),
+  paymentStatus: (where, value) => where.and(`(
+    SELECT p.status FROM payments p
+    WHERE p.order_id = orders.id::text
+    ORDER BY p.created_at DESC
+    LIMIT 1
+  ) = ANY(${where.param(PAYMENT_STATUS_SOURCES[value])})`),
+  dateFrom: (where, value) => where.and(`created_at >= ${where.param(value)}`),
+  dateTo: (where, value) => where.and(`created_at <= ${where.param(value)}`),
+  minAmount: (where, value) => where.and(`total_amount >= ${where.param(value)}`),
+  maxAmount: (where, value) => where.and(`total_amount <= ${where.param(value)}`),
+  search: (where, value) => ORDER_SEARCHES[value.mode](where, value.term),
+  // Containment is served by the GIN index from migrations/016_order_metadata.sql
+  metadata: (where, value) => where.and(`metadata @> ${where.param(JSON.stringify(value))}::jsonb`)
+};
+
+/**
+ * Build the WHERE clause for an order listing from its filters
+ */
+export const buildOrderWhere = (filters: OrderFilters): WhereBuilder => {
+  const where = new WhereBuilder();
+
+  for (const key of Object.keys(ORDER_FILTERS) as (keyof OrderFilters)[]) {
+    const value = filters[key];
+    if (value === undefined || value === null || value === '') continue;
+    (ORDER_FILTERS[key] as FilterApplier<typeof key>)(where, value as never);
+  }
+
+  return where;
+};
+
+// Newest first unless the client asks otherwise
+export const DEFAULT_ORDER_SORT: OrderSortKey[] = [{ field: 'created_at', direction: 'DESC' }];
+
+// Sort key after resolution: may also be the id tie-breaker
+export interface ResolvedSortKey {
+  field: OrderSortField | 'id';
+  direction: OrderSortKey['direction'];
+}
+
+// Type each sort column's cursor value is cast back to
+const SORT_COLUMN_TYPES: Record<OrderSortField | 'id', string> = {
+  created_at: 'timestamp',
+  updated_at: 'timestamp',
+  total_amount: 'bigint',
+  status: 'text',
+  order_number: 'text',
+  id: 'integer'
+};
+
+// Whether a decoded cursor value is a valid literal of its column's type; cursors come
+// from the client, so a bad value must not reach the ::cast and fail as a database error
+const INT64_RANGE = [-(2n ** 63n), 2n ** 63n - 1n] as const;
+const INT32_RANGE = [-(2n ** 31n), 2n ** 31n - 1n] as const;
+
+const isIntegerText = (value: string, [min, max]: readonly [bigint, bigint]): boolean =>
+  /^-?\d{1,19}$/.test(value) && BigInt(value) >= min && BigInt(value) <= max;
+
+// TIMESTAMP::text as Postgres prints it, e.g. 2026-03-01 09:15:00.123456
+const isTimestampText = (value: string): boolean => {
+  const match = /^(\d{4})-(\d{2})-(\d{2}) (\d{2}):(\d{2}):(\d{2})(\.\d{1,6})?$/.exec(value);
+  if (!match) {
+    return false;
+  }
+  const [year, month, day, hour, minute, second] = match.slice(1, 7).map(Number) as number[];
+  const date = new Date(Date.UTC(year!, month! - 1, day!, hour!, minute!, second!));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month! - 1 && date.getUTCDate() === day &&
+    date.getUTCHours() === hour && date.getUTCMinutes() === minute && date.getUTCSeconds() === second;
+};
+
+const SORT_VALUE_VALIDATORS: Record<string, (value: string) => boolean> = {
+  timestamp: isTimestampText,
+  bigint: value => isIntegerText(value, INT64_RANGE),
+  integer: value => isIntegerText(value, INT32_RANGE),
+  // Postgres text cannot hold NUL characters
+  text: value => !value.includes('\u0000')
+};
+
+/**
+ * Sort keys with id appended as a tie-breaker, so rows with equal sort values
+ * keep the same relative order on every page
+ */
+export const resolveOrderSort = (sort?: ResolvedSortKey[]): ResolvedSortKey[] => {
+  const keys = sort && sort.length > 0 ? sort : DEFAULT_ORDER_SORT;
+  return [...keys, { field: 'id', direction: keys[0]!.direction }];
+};
+
+/**
+ * ORDER BY clause for resolved sort keys; reversed when paging backwards
+ */
+export const orderByClause = (keys: ResolvedSortKey[], reverse = false): string =>
+  keys
+    .map(key => {
+      const direction = reverse ? (key.direction === 'ASC' ? 'DESC' : 'ASC') : key.direction;
+      return `${key.field} ${direction}`;
+    })
+    .join(', ');
+
+/**
+ * Restrict to rows after (or, paging backwards, before) a cursor position.
+ * Uniform directions use a row comparison the (created_at, id) index can serve;
+ * mixed directions expand to (a > x) OR (a = x AND b < y) ...
+ */
+export const applyKeyset = (
+  where: WhereBuilder,
+  keys: ResolvedSortKey[],
+  values: string[],
+  backwards: boolean
+): void => {
+  const placeholders = values.map((value, i) => `${where.param(value)}::${SORT_COLUMN_TYPES[keys[i]!.field]}`);
+  const comparator = (key: ResolvedSortKey) => (key.direction === 'DESC') !== backwards ? '<' : '>';
+
+  if (keys.every(key => key.direction === keys[0]!.direction)) {
+    where.and(`(${keys.map(key => key.field).join(', ')}) ${comparator(keys[0]!)} (${placeholders.join(', ')})`);
+    return;
+  }
+
+  const branches = keys.map((key, i) => [
+    ...keys.slice(0, i).map((previous, j) => `${previous.field} = ${placeholders[j]}`),
+    `${key.field} ${comparator(key)} ${placeholders[i]}`
+  ].join(' AND '));
+
+  where.and(`((${branches.join(') OR (')}))`);
+};
+
+/**
+ * Select list item carrying the sort values a cursor is built from
+ */
+export const cursorValuesColumn = (keys: ResolvedSortKey[]): string =>
+  `ARRAY[${keys.map(key => `${key.field}::text`).join(', ')}] AS cursor_values`;
+
+// Raised when a client sends a cursor we did not issue
+export class InvalidCursorError extends Error {
+  override name = 'InvalidCursorError';
+
+  constructor() {
+    super('Invalid pagination cursor');
+  }
+}
+
+export type CursorDirection = 'next' | 'prev';
+
+// Keyset position: the row's sort values (as text, keeping timestamp microseconds) and the sort they belong to
+export interface OrderCursorPosition {
+  sort: string;
+  values: string[];
+  direction: CursorDirection;
+}
+
+const sortSignature = (keys: ResolvedSortKey[]): string =>
+  keys.map(key => `${key.direction === 'DESC' ? '-' : ''}${key.field}`).join(',');
+
+export const OrderCursor = {
+  /**
+   * Encode a row position as an opaque cursor
+   */
+  encode(row: { cursor_values: string[] }, keys: ResolvedSortKey[], direction: CursorDirection): string {
+    const position: OrderCursorPosition = { sort: sortSignature(keys), values: row.cursor_values, direction };
+    return Buffer.from(JSON.stringify(position)).toString('base64url');
+  },
+
+  /**
+   * Decode a cursor, throwing InvalidCursorError if it is malformed, was issued for a
+   * different sort or holds a value that is not valid for its sort column
+   */
+  decode(cursor: string, keys: ResolvedSortKey[]): OrderCursorPosition {
+    try {
+      const position = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+      if (position.sort !== sortSignature(keys) ||
+          !Array.isArray(position.values) ||
+          position.values.length !== keys.length ||
+          !position.values.every((value: unknown, i: number) =>
+            typeof value === 'string' && SORT_VALUE_VALIDATORS[SORT_COLUMN_TYPES[keys[i]!.field]]!(value)) ||
+          (position.direction !== 'next' && position.direction !== 'prev')) {
+        throw new InvalidCursorError();
+      }
+      return position;
+    } catch {
+      throw new InvalidCursorError();
+    }
+  }
+};
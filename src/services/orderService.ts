@@ -1,6 +1,44 @@
-import { OrderStatus, type Order, type OrderItem } from '../models/Order.js';
+import {
+  OrderStatus,
+  ShippingMethod,
+  DEFAULT_CURRENCY,
+  OrderHelpers,
+  type BulkStatusResult,
+  type BulkStatusUpdate,
+  type CreateOrderInput,
+  type Order,
+  type OrderItem,
+  type OrderFilters,
+  type OrderItemChange,
+  type OrderItemRequest,
+  type OrderListQuery,
+  type OrderListResult,
+  type OrderStatusHistoryEntry,
+  type ShippingAddress,
+  type StatusChangeContext
+} from '../models/Order.js';
 import { v4 as uuidv4 } from 'uuid';
 import { sql } from '../config/database.ts';
+import { InvalidStatusTransitionError, OrderStateMachine, PRE_SHIPMENT_STATUSES } from './orderStateMachine.js';
+import { pricingService } from './pricingService.js';
+import { ProductService } from './productService.js';
+import { InsufficientStockError, InventoryService, type OrderStateGuard, type ReturnStateGuard } from './inventoryService.js';
+import { ReservationStatus } from '../models/Inventory.js';
+import { Money } from '../models/Money.js';
+import { cacheService } from './cacheService.js';
+import {
+  applyKeyset,
+  buildOrderWhere,
+  cursorValuesColumn,
+  orderByClause,
+  OrderCursor,
+  resolveOrderSort,
+  type ResolvedSortKey,
+  type WhereBuilder
+} from './orderQueryBuilder.js';
+
+// Prefix for human-readable order numbers, e.g. ORD-2026-000123
+const ORDER_NUMBER_PREFIX = process.env.ORDER_NUMBER_PREFIX || 'ORD';
 
 declare global {
   var orderCache: { [key: string]: Order } | undefined;
@@ -8,9 +46,20 @@ declare global {
 }
 
 export class OrderService {
-  constructor(private db: typeof sql) {}
+  private products: ProductService;
+  private inventory: InventoryService;
+
+  constructor(private db: typeof sql) {
+    this.products = new ProductService(db);
+    this.inventory = new InventoryService(db);
+  }
 
-  async createOrder(userId: string, items: OrderItem[], clientToken: string): Promise<Order> {
+  async createOrder(
+    userId: string,
+    requestedItems: OrderItemRequest[],
+    clientToken: string,
+    options: Omit<CreateOrderInput, 'user_id' | 'items' | 'client_token'> = {}
+  ): Promise<Order> {
     try {
       // Check for existing order with same client_token (idempotency)
       const existingResult = await this.db`
@@ -21,20 +70,70 @@ export class OrderService {
         return this.mapRowToOrder(existingResult[0]);
       }
 
-      // Calculate total amount
-      const totalAmount = items.reduce((sum, item) => sum + (item.price * item.quantity), 0);
+      // The catalog is the price authority: client prices are ignored
+      const currency = options.currency ?? DEFAULT_CURRENCY;
+      const items = await this.products.resolveOrderItems(requestedItems, currency);
+      const shippingMethod = (options.shippingMethod || ShippingMethod.STANDARD) as ShippingMethod;
 
-      // Create new order
-      const result = await this.db`
-        INSERT INTO orders (user_id, items, client_token, total_amount, status, version, created_at, updated_at) 
-        VALUES (${userId}, ${JSON.stringify(items)}, ${clientToken}, ${totalAmount}, 'PENDING', 1, NOW(), NOW()) 
-        RETURNING *
+      // Price the order server-side: subtotal, discount, shipping and tax
+      const pricing = pricingService.price({
+        items,
+        currency,
+        shippingMethod,
+        ...(options.shippingAddress && { shippingAddress: options.shippingAddress })
+      });
+      const pricedItems = items.map((item, index) => ({ ...item, totalPrice: pricing.lines[index]!.lineTotal }));
+      const shippingAddress = options.shippingAddress ? JSON.stringify(options.shippingAddress) : null;
+
+      // Fail fast with a useful error; the reservation below is still the authority
+      const shortages = await this.inventory.findShortages(items);
+      if (shortages.length > 0) {
+        throw new InsufficientStockError(shortages);
+      }
+
+      // Create new order and open its status history in the same statement
+      const insertStatement = this.db`
+        WITH created AS (
+          INSERT INTO orders (
+            user_id, order_number, items, client_token, currency, total_amount,
+            subtotal, discount_amount, shipping_amount, tax_rate, tax_amount,
+            shipping_address, shipping_method, notes, metadata,
+            status, version, created_at, updated_at
+          ) 
+          VALUES (
+            ${userId},
+            (
+              SELECT ${ORDER_NUMBER_PREFIX} || '-' || to_char(NOW(), 'YYYY') || '-' || lpad(seq.n::text, GREATEST(6, length(seq.n::text)), '0')
+              FROM (SELECT nextval('order_number_seq') AS n) seq
+            ),
+            ${JSON.stringify(OrderHelpers.toStoredItems(pricedItems))}, ${clientToken}, ${currency}, ${pricing.total.amount},
+            ${pricing.subtotal.amount}, ${pricing.discountAmount.amount}, ${pricing.shippingAmount.amount}, ${pricing.taxRate}, ${pricing.taxAmount.amount},
+            ${shippingAddress}::jsonb, ${shippingMethod}, ${options.notes ?? null}, ${JSON.stringify(options.metadata ?? {})}::jsonb,
+            'PENDING', 1, NOW(), NOW()
+          ) 
+          RETURNING *
+        ), history AS (
+          INSERT INTO order_status_history (order_id, from_status, to_status, version, actor_type, actor_id)
+          SELECT id, NULL, status, version, 'user', ${userId} FROM created
+        )
+        SELECT * FROM created
       `;
 
+      // Reserve its stock in the same transaction
+      let created: any[];
+      try {
+        [created] = await this.db.transaction([
+          insertStatement,
+          ...this.inventory.reservationStatements(clientToken, items)
+        ]) as [any[]];
+      } catch (error) {
+        throw await this.inventory.translateStockError(error, items);
+      }
+
       // Increment metrics
       this.incrementOrdersCreated();
       
-      return this.mapRowToOrder(result[0]);
+      return this.mapRowToOrder(created[0]);
     } catch (error) {
       console.error('Error creating order:', error);
       throw error;
@@ -44,152 +143,48 @@ export class OrderService {
   async getOrders(
     userId?: string, 
     role?: string,
-    status?: OrderStatus,
-    searchSku?: string,
-    page: number = 1,
-    limit: number = 10
-  ): Promise<{ orders: Order[], total: number }> {
+    query: OrderListQuery = {}
+  ): Promise<OrderListResult> {
     try {
-      let whereConditions: string[] = ['1=1'];
-      let params: any = {};
-      
-      // RBAC: Users can only see their own orders, admins see all
-      if (role !== 'ADMIN' && userId) {
-        whereConditions.push('user_id = $userId');
-        params.userId = userId;
-      }
+      // RBAC: Users can only see their own orders, admins see all (optionally filtered by user)
+      const scopedFilters: OrderFilters = role !== 'ADMIN' && userId
+        ? { ...query, user_id: userId }
+        : query;
 
-      if (status) {
-        whereConditions.push('status = $status');
-        params.status = status;
-      }
+      // Count and page queries share one WHERE clause so they always agree
+      const where = buildOrderWhere(scopedFilters);
+      const filterClause = where.toSql();
+      const filterParams = [...where.params];
+      const limit = query.limit ?? 10;
+      const sortKeys = resolveOrderSort(query.sort);
 
-      if (searchSku) {
-        whereConditions.push('items::text ILIKE $searchSku');
-        params.searchSku = `%${searchSku}%`;
+      // The count is optional: it is the expensive part on large tables
+      let total: number | undefined;
+      if (query.includeTotal !== false) {
+        const totalResult = await this.db.query(
+          `SELECT COUNT(*) as count FROM orders WHERE ${filterClause}`,
+          filterParams
+        );
+        total = parseInt(totalResult[0]!.count);
       }
 
-      const whereClause = whereConditions.join(' AND ');
-
-      // Count total - we'll build the query dynamically
-      let countQuery = `SELECT COUNT(*) as count FROM orders WHERE ${whereClause}`;
-      
-      // Get total count first
-      let totalResult: any[];
-      if (role !== 'ADMIN' && userId) {
-        if (status && searchSku) {
-          totalResult = await this.db`
-            SELECT COUNT(*) as count FROM orders 
-            WHERE user_id = ${userId} AND status = ${status} AND items::text ILIKE ${`%${searchSku}%`}
-          `;
-        } else if (status) {
-          totalResult = await this.db`
-            SELECT COUNT(*) as count FROM orders 
-            WHERE user_id = ${userId} AND status = ${status}
-          `;
-        } else if (searchSku) {
-          totalResult = await this.db`
-            SELECT COUNT(*) as count FROM orders 
-            WHERE user_id = ${userId} AND items::text ILIKE ${`%${searchSku}%`}
-          `;
-        } else {
-          totalResult = await this.db`
-            SELECT COUNT(*) as count FROM orders 
-            WHERE user_id = ${userId}
-          `;
-        }
-      } else {
-        // Admin can see all orders
-        if (status && searchSku) {
-          totalResult = await this.db`
-            SELECT COUNT(*) as count FROM orders 
-            WHERE status = ${status} AND items::text ILIKE ${`%${searchSku}%`}
-          `;
-        } else if (status) {
-          totalResult = await this.db`
-            SELECT COUNT(*) as count FROM orders 
-            WHERE status = ${status}
-          `;
-        } else if (searchSku) {
-          totalResult = await this.db`
-            SELECT COUNT(*) as count FROM orders 
-            WHERE items::text ILIKE ${`%${searchSku}%`}
-          `;
-        } else {
-          totalResult = await this.db`SELECT COUNT(*) as count FROM orders`;
-        }
+      if (query.cursor !== undefined || query.paginate === 'cursor') {
+        return { ...await this.getOrdersPageByCursor(where, sortKeys, limit, query.cursor), ...(total !== undefined && { total }) };
       }
 
-      const total = parseInt(totalResult[0].count);
-
       // Get paginated results
-      const offset = (page - 1) * limit;
-      
-      let ordersResult: any[];
-      if (role !== 'ADMIN' && userId) {
-        if (status && searchSku) {
-          ordersResult = await this.db`
-            SELECT * FROM orders 
-            WHERE user_id = ${userId} AND status = ${status} AND items::text ILIKE ${`%${searchSku}%`}
-            ORDER BY created_at DESC 
-            LIMIT ${limit} OFFSET ${offset}
-          `;
-        } else if (status) {
-          ordersResult = await this.db`
-            SELECT * FROM orders 
-            WHERE user_id = ${userId} AND status = ${status}
-            ORDER BY created_at DESC 
-            LIMIT ${limit} OFFSET ${offset}
-          `;
-        } else if (searchSku) {
-          ordersResult = await this.db`
-            SELECT * FROM orders 
-            WHERE user_id = ${userId} AND items::text ILIKE ${`%${searchSku}%`}
-            ORDER BY created_at DESC 
-            LIMIT ${limit} OFFSET ${offset}
-          `;
-        } else {
-          ordersResult = await this.db`
-            SELECT * FROM orders 
-            WHERE user_id = ${userId}
-            ORDER BY created_at DESC 
-            LIMIT ${limit} OFFSET ${offset}
-          `;
-        }
-      } else {
-        // Admin queries
-        if (status && searchSku) {
-          ordersResult = await this.db`
-            SELECT * FROM orders 
-            WHERE status = ${status} AND items::text ILIKE ${`%${searchSku}%`}
-            ORDER BY created_at DESC 
-            LIMIT ${limit} OFFSET ${offset}
-          `;
-        } else if (status) {
-          ordersResult = await this.db`
-            SELECT * FROM orders 
-            WHERE status = ${status}
-            ORDER BY created_at DESC 
-            LIMIT ${limit} OFFSET ${offset}
-          `;
-        } else if (searchSku) {
-          ordersResult = await this.db`
-            SELECT * FROM orders 
-            WHERE items::text ILIKE ${`%${searchSku}%`}
-            ORDER BY created_at DESC 
-            LIMIT ${limit} OFFSET ${offset}
-          `;
-        } else {
-          ordersResult = await this.db`
-            SELECT * FROM orders 
-            ORDER BY created_at DESC 
-            LIMIT ${limit} OFFSET ${offset}
-          `;
-        }
-      }
+      const offset = query.offset ?? 0;
+      const pageParams = [...filterParams, limit, offset];
+
+      const ordersResult = await this.db.query(
+        `SELECT * FROM orders WHERE ${filterClause} 
+         ORDER BY ${orderByClause(sortKeys)} 
+         LIMIT $${pageParams.length - 1} OFFSET $${pageParams.length}`,
+        pageParams
+      );
 
       const orders = ordersResult.map(row => this.mapRowToOrder(row));
-      return { orders, total };
+      return { orders, ...(total !== undefined && { total }) };
 
     } catch (error) {
       console.error('Error getting orders:', error);
@@ -197,6 +192,75 @@ export class OrderService {
     }
   }
 
+  /**
+   * Walk every order matching the query in keyset batches, so memory stays flat
+   * however many rows match. Same RBAC scoping as getOrders.
+   */
+  async *streamOrders(
+    userId?: string,
+    role?: string,
+    query: OrderListQuery = {},
+    batchSize = 500
+  ): AsyncGenerator<Order[]> {
+    let cursor: string | undefined;
+
+    do {
+      const page = await this.getOrders(userId, role, {
+        ...query,
+        paginate: 'cursor',
+        ...(cursor && { cursor }),
+        limit: batchSize,
+        includeTotal: false
+      });
+
+      if (page.orders.length > 0) {
+        yield page.orders;
+      }
+
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+  }
+
+  /**
+   * Keyset page on the sort keys plus id: stable while new orders arrive mid-scroll
+   */
+  private async getOrdersPageByCursor(
+    where: WhereBuilder,
+    sortKeys: ResolvedSortKey[],
+    limit: number,
+    cursor?: string
+  ): Promise<OrderListResult> {
+    const position = cursor ? OrderCursor.decode(cursor, sortKeys) : null;
+    const backwards = position?.direction === 'prev';
+
+    if (position) {
+      applyKeyset(where, sortKeys, position.values, backwards);
+    }
+
+    // Fetch one extra row to learn whether another page exists
+    const rows = await this.db.query(
+      `SELECT *, ${cursorValuesColumn(sortKeys)} FROM orders WHERE ${where.toSql()} 
+       ORDER BY ${orderByClause(sortKeys, backwards)} 
+       LIMIT ${where.param(limit + 1)}`,
+      where.params
+    );
+
+    const hasMore = rows.length > limit;
+    const page = rows.slice(0, limit);
+    if (backwards) page.reverse();
+
+    const first = page[0];
+    const last = page[page.length - 1];
+    const hasNext = backwards ? true : hasMore;
+    const hasPrev = backwards ? hasMore : position !== null;
+
+    return {
+      orders: page.map(row => this.mapRowToOrder(row)),
+      nextCursor: hasNext && last ? OrderCursor.encode(last as any, sortKeys, 'next') : null,
+      prevCursor: hasPrev && first ? OrderCursor.encode(first as any, sortKeys, 'prev') : null
+    };
+  }
+
   async getOrderById(orderId: string, userId?: string, role?: string): Promise<Order | null> {
     try {
       let result: any[];
@@ -223,10 +287,43 @@ export class OrderService {
     }
   }
 
+  async getOrderByNumber(orderNumber: string, userId?: string, role?: string): Promise<Order | null> {
+    try {
+      let result: any[];
+
+      // RBAC: Users can only see their own orders
+      if (role !== 'ADMIN' && userId) {
+        result = await this.db`
+          SELECT * FROM orders WHERE order_number = ${orderNumber.toUpperCase()} AND user_id = ${userId}
+        `;
+      } else {
+        result = await this.db`
+          SELECT * FROM orders WHERE order_number = ${orderNumber.toUpperCase()}
+        `;
+      }
+
+      if (result.length === 0) {
+        return null;
+      }
+
+      return this.mapRowToOrder(result[0]);
+    } catch (error) {
+      console.error('Error getting order by number:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Move an order to a new status through the lifecycle table. `extra` adds
+   * statements to the same transaction; they must only take effect while the
+   * guard holds (the order is in the new status at the new version).
+   */
   async updateOrderStatus(
     orderId: string, 
     newStatus: OrderStatus, 
-    currentVersion?: number
+    currentVersion?: number,
+    context: StatusChangeContext = { actor: { type: 'system' } },
+    extra?: (guard: OrderStateGuard) => any[]
   ): Promise<Order> {
     try {
       // Optimistic locking: check current version
@@ -238,26 +335,449 @@ export class OrderService {
         throw new Error('Order not found');
       }
 
-      const currentOrder = currentResult[0];
+      const currentOrder: Order = this.mapRowToOrder(currentResult[0]);
+      
+      if (currentVersion && currentOrder.version !== currentVersion) {
+        throw new Error('Order was modified by another process. Please refresh and try again.');
+      }
+
+      // Validate the move against the lifecycle table (throws InvalidStatusTransitionError)
+      const transition = OrderStateMachine.resolveTransition(currentOrder, newStatus);
+
+      const updateStatement = this.statusUpdateStatement(currentOrder, newStatus, transition.stamps ?? [], context);
+
+      // Settle the stock reservation in the same transaction, only if the update went through
+      // (a payment that arrives after the reservation lapsed takes the stock afresh)
+      const guard: OrderStateGuard = { status: newStatus, version: currentOrder.version + 1 };
+      const statements = [
+        ...(transition.inventory === 'commit'
+          ? [
+              this.inventory.settlementStatement(orderId, ReservationStatus.COMMITTED, guard),
+              this.inventory.recommitStatement(orderId, guard)
+            ]
+          : []),
+        // Nothing should be collected for an order that gave its stock back, whichever
+        // path cancelled it (customer, admin, bulk or expiry)
+        ...(transition.inventory === 'release'
+          ? [
+              this.inventory.settlementStatement(orderId, ReservationStatus.RELEASED, guard),
+              this.paymentCancellationStatement(orderId, `Order ${newStatus.toLowerCase()}`, guard)
+            ]
+          : []),
+        ...(extra?.(guard) ?? [])
+      ];
+
+      let result: any[];
+      try {
+        result = statements.length > 0
+          ? (await this.db.transaction([updateStatement, ...statements]))[0]!
+          : await updateStatement;
+      } catch (error) {
+        throw await this.inventory.translateStockError(error, currentOrder.items);
+      }
+
+      if (result.length === 0) {
+        throw new Error('Order was modified by another process. Please refresh and try again.');
+      }
+
+      // Invalidate cache
+      this.invalidateOrderCache(orderId);
       
-      if (currentVersion && currentOrder?.version !== currentVersion) {
+      return this.mapRowToOrder(result[0]);
+    } catch (error) {
+      console.error('Error updating order status:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Statement that moves an order to a new status as part of a return's transaction;
+   * a no-op unless the return guard holds. Only for transitions without a stock effect
+   * (throws InvalidStatusTransitionError if the move is not allowed).
+   */
+  returnStatusStatement(order: Order, newStatus: OrderStatus, context: StatusChangeContext, guard: ReturnStateGuard) {
+    const transition = OrderStateMachine.resolveTransition(order, newStatus);
+    if (transition.inventory) {
+      throw new Error(`Order status change to ${newStatus} needs its own transaction`);
+    }
+
+    return this.statusUpdateStatement(order, newStatus, transition.stamps ?? [], context, guard);
+  }
+
+  /**
+   * The status update with version increment, guarded by the version and status it was
+   * validated against (plus the return guard and the open-payment check, if asked for),
+   * appending the history entry in the same statement
+   */
+  private statusUpdateStatement(
+    currentOrder: Order,
+    newStatus: OrderStatus,
+    stamps: string[],
+    context: StatusChangeContext,
+    returnGuard?: ReturnStateGuard
+  ) {
+    return this.db`
+      WITH updated AS (
+        UPDATE orders 
+        SET 
+          status = ${newStatus}, 
+          version = version + 1, 
+          updated_at = NOW(),
+          paid_at = CASE WHEN ${stamps.includes('paid_at')}::boolean THEN COALESCE(paid_at, NOW()) ELSE paid_at END,
+          shipped_at = CASE WHEN ${stamps.includes('shipped_at')}::boolean THEN COALESCE(shipped_at, NOW()) ELSE shipped_at END,
+          delivered_at = CASE WHEN ${stamps.includes('delivered_at')}::boolean THEN COALESCE(delivered_at, NOW()) ELSE delivered_at END
+        WHERE id = ${currentOrder.id} 
+          AND version = ${currentOrder.version} 
+          AND status = ${currentOrder.status}
+          AND (${!returnGuard}::boolean OR EXISTS (
+            SELECT 1 FROM returns 
+            WHERE id = ${returnGuard?.returnId ?? null} AND status = ${returnGuard?.status ?? null} AND version = ${returnGuard?.version ?? null}
+          ))
+          AND (${!context.requireNoOpenPayment}::boolean OR NOT EXISTS (
+            SELECT 1 FROM payments 
+            WHERE order_id = ${currentOrder.id}::text AND status IN ('PENDING', 'PROCESSING')
+          ))
+        RETURNING *
+      ), history AS (
+        INSERT INTO order_status_history (order_id, from_status, to_status, version, actor_type, actor_id, reason)
+        SELECT id, ${currentOrder.status}, status, version, ${context.actor.type}, ${context.actor.id ?? null}, ${context.reason ?? null}
+        FROM updated
+      )
+      SELECT * FROM updated
+    `;
+  }
+
+  /**
+   * Apply many status changes, each through updateOrderStatus (same transition
+   * rules and optimistic lock). Entries run one after another and independently.
+   */
+  async bulkUpdateOrderStatus(
+    updates: BulkStatusUpdate[],
+    context: StatusChangeContext
+  ): Promise<BulkStatusResult[]> {
+    const results: BulkStatusResult[] = [];
+
+    for (const update of updates) {
+      try {
+        const order = await this.updateOrderStatus(update.id, update.status, update.version, context);
+        results.push({ id: update.id, outcome: 'updated', order });
+      } catch (error: any) {
+        if (error instanceof InvalidStatusTransitionError) {
+          results.push({
+            id: update.id,
+            outcome: 'invalid_transition',
+            error: error.message,
+            current_status: error.from,
+            allowed_transitions: error.allowed
+          });
+        } else if (error.message?.includes('modified by another process')) {
+          results.push({ id: update.id, outcome: 'conflict', error: error.message });
+        } else if (error.message === 'Order not found') {
+          results.push({ id: update.id, outcome: 'not_found', error: error.message });
+        } else {
+          results.push({ id: update.id, outcome: 'error', error: 'Failed to update order status' });
+        }
+      }
+    }
+
+    return results;
+  }
+
+  async cancelOrder(
+    orderId: string,
+    userId: string,
+    reason: string,
+    currentVersion?: number
+  ): Promise<Order> {
+    try {
+      // Customers may only cancel their own orders
+      const ownedResult = await this.db`
+        SELECT id FROM orders WHERE id = ${orderId} AND user_id = ${userId}
+      `;
+
+      if (ownedResult.length === 0) {
+        throw new Error('Order not found');
+      }
+
+      // The lifecycle table only allows CANCELLED before fulfilment starts; open payments go with it
+      return await this.updateOrderStatus(orderId, OrderStatus.CANCELLED, currentVersion, {
+        actor: { type: 'user', id: userId },
+        reason
+      });
+    } catch (error) {
+      console.error('Error cancelling order:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Statement that cancels the order's open (PENDING or PROCESSING) payments,
+   * for use in the transaction that cancels the order. A no-op when the guard does not hold.
+   */
+  private paymentCancellationStatement(orderId: string, reason: string, guard: OrderStateGuard) {
+    return this.db`
+      UPDATE payments 
+      SET 
+        status = 'CANCELLED', 
+        failure_reason = ${reason},
+        updated_at = NOW()
+      WHERE order_id = ${orderId}::text 
+        AND status IN ('PENDING', 'PROCESSING')
+        AND EXISTS (
+          SELECT 1 FROM orders 
+          WHERE id = ${orderId} AND status = ${guard.status}::text AND version = ${guard.version}::integer
+        )
+    `;
+  }
+
+  async updateOrderItems(
+    orderId: string,
+    userId: string,
+    changes: OrderItemChange[],
+    currentVersion?: number
+  ): Promise<Order> {
+    try {
+      const currentResult = await this.db`
+        SELECT * FROM orders WHERE id = ${orderId} AND user_id = ${userId}
+      `;
+
+      if (currentResult.length === 0) {
+        throw new Error('Order not found');
+      }
+
+      const currentOrder: Order = this.mapRowToOrder(currentResult[0]);
+
+      if (currentVersion && currentOrder.version !== currentVersion) {
         throw new Error('Order was modified by another process. Please refresh and try again.');
       }
 
-      // Update with version increment
+      if (currentOrder.status !== OrderStatus.PENDING) {
+        throw new Error('Order items can no longer be changed');
+      }
+
+      const activePayments = await this.db`
+        SELECT payment_id FROM payments 
+        WHERE order_id = ${orderId}::text AND status IN ('PENDING', 'PROCESSING')
+      `;
+
+      if (activePayments.length > 0) {
+        throw new Error('Order has an active payment. Cancel it before changing items.');
+      }
+
+      // Apply the changes; existing lines keep their catalog price snapshot
+      const lineKey = (item: { sku: string, variant?: string }) => `${item.sku}:${item.variant ?? ''}`;
+      const lines = new Map<string, Omit<OrderItem, 'id' | 'totalPrice'>>(
+        currentOrder.items.map(({ id, totalPrice, ...item }) => [lineKey(item), item])
+      );
+      const added: OrderItemRequest[] = [];
+
+      for (const change of changes) {
+        const key = lineKey(change);
+        const existing = lines.get(key);
+
+        if (change.quantity === 0) {
+          lines.delete(key);
+        } else if (existing) {
+          lines.set(key, { ...existing, quantity: change.quantity });
+        } else {
+          lines.delete(key);
+          added.push({
+            sku: change.sku,
+            quantity: change.quantity,
+            ...(change.variant && { variant: change.variant })
+          });
+        }
+      }
+
+      const items = [...lines.values(), ...await this.products.resolveOrderItems(added, currentOrder.currency)];
+
+      if (items.length === 0) {
+        throw new Error('Order must contain at least one item. Cancel the order instead.');
+      }
+
+      const pricing = pricingService.price({
+        items,
+        currency: currentOrder.currency,
+        shippingMethod: (currentOrder.shippingMethod || ShippingMethod.STANDARD) as ShippingMethod,
+        ...(currentOrder.shippingAddress && { shippingAddress: currentOrder.shippingAddress })
+      });
+      const pricedItems = items.map((item, index) => ({ ...item, totalPrice: pricing.lines[index]!.lineTotal }));
+      const guard = { status: OrderStatus.PENDING, version: currentOrder.version + 1 };
+
+      // Update the order and swap its stock reservation in one transaction; the
+      // inventory statements only apply if the guarded order update went through
+      let updated: any[];
+      try {
+        [updated] = await this.db.transaction([
+          this.db`
+            UPDATE orders 
+            SET 
+              items = ${JSON.stringify(OrderHelpers.toStoredItems(pricedItems))}, 
+              total_amount = ${pricing.total.amount},
+              subtotal = ${pricing.subtotal.amount},
+              discount_amount = ${pricing.discountAmount.amount},
+              shipping_amount = ${pricing.shippingAmount.amount},
+              tax_rate = ${pricing.taxRate},
+              tax_amount = ${pricing.taxAmount.amount},
+              version = version + 1, 
+              updated_at = NOW() 
+            WHERE id = ${orderId} 
+              AND version = ${currentOrder.version} 
+              AND status = ${OrderStatus.PENDING}
+              AND NOT EXISTS (
+                SELECT 1 FROM payments 
+                WHERE order_id = ${orderId}::text AND status IN ('PENDING', 'PROCESSING')
+              )
+            RETURNING *
+          `,
+          this.inventory.settlementStatement(orderId, ReservationStatus.RELEASED, guard),
+          ...this.inventory.reservationStatements(currentOrder.client_token, items, guard)
+        ]) as [any[]];
+      } catch (error) {
+        throw await this.inventory.translateStockError(error, items);
+      }
+
+      if (updated.length === 0) {
+        throw new Error('Order was modified by another process. Please refresh and try again.');
+      }
+
+      this.invalidateOrderCache(orderId);
+
+      return this.mapRowToOrder(updated[0]);
+    } catch (error) {
+      console.error('Error updating order items:', error);
+      throw error;
+    }
+  }
+
+  async updateShippingAddress(
+    orderId: string,
+    userId: string,
+    shippingAddress: ShippingAddress,
+    currentVersion?: number
+  ): Promise<Order> {
+    try {
+      const currentResult = await this.db`
+        SELECT * FROM orders WHERE id = ${orderId} AND user_id = ${userId}
+      `;
+
+      if (currentResult.length === 0) {
+        throw new Error('Order not found');
+      }
+
+      const currentOrder: Order = this.mapRowToOrder(currentResult[0]);
+
+      if (currentVersion && currentOrder.version !== currentVersion) {
+        throw new Error('Order was modified by another process. Please refresh and try again.');
+      }
+
+      if (!PRE_SHIPMENT_STATUSES.includes(currentOrder.status) || currentOrder.shippedAt) {
+        throw new Error('Shipping address can no longer be changed');
+      }
+
+      // Shipping and tax depend on the destination
+      const pricing = pricingService.price({
+        items: currentOrder.items,
+        currency: currentOrder.currency,
+        shippingMethod: (currentOrder.shippingMethod || ShippingMethod.STANDARD) as ShippingMethod,
+        shippingAddress
+      });
+
+      // Once money is being collected the amount must not move under it
+      const totalChanged = Money.compare(pricing.total, currentOrder.total_amount) !== 0;
+      if (totalChanged && currentOrder.paidAt) {
+        throw new Error('Shipping address change would alter the total of a paid order');
+      }
+
       const result = await this.db`
         UPDATE orders 
-        SET status = ${newStatus}, version = version + 1, updated_at = NOW() 
+        SET 
+          shipping_address = ${JSON.stringify(shippingAddress)}::jsonb, 
+          total_amount = ${pricing.total.amount},
+          subtotal = ${pricing.subtotal.amount},
+          discount_amount = ${pricing.discountAmount.amount},
+          shipping_amount = ${pricing.shippingAmount.amount},
+          tax_rate = ${pricing.taxRate},
+          tax_amount = ${pricing.taxAmount.amount},
+          version = version + 1, 
+          updated_at = NOW() 
         WHERE id = ${orderId} 
+          AND version = ${currentOrder.version} 
+          AND shipped_at IS NULL
+          AND (${!totalChanged}::boolean OR NOT EXISTS (
+            SELECT 1 FROM payments 
+            WHERE order_id = ${orderId}::text AND status IN ('PENDING', 'PROCESSING')
+          ))
         RETURNING *
       `;
 
-      // Invalidate cache
+      if (result.length === 0) {
+        throw new Error('Order was modified by another process. Please refresh and try again.');
+      }
+
       this.invalidateOrderCache(orderId);
-      
+
       return this.mapRowToOrder(result[0]);
     } catch (error) {
-      console.error('Error updating order status:', error);
+      console.error('Error updating shipping address:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replace an order's metadata. Owners may update their own orders, admins any order.
+   */
+  async updateMetadata(
+    orderId: string,
+    userId: string,
+    role: string,
+    metadata: Record<string, any>,
+    currentVersion?: number
+  ): Promise<Order> {
+    try {
+      const currentOrder = await this.getOrderById(orderId, userId, role);
+      if (!currentOrder) {
+        throw new Error('Order not found');
+      }
+
+      if (currentVersion && currentOrder.version !== currentVersion) {
+        throw new Error('Order was modified by another process. Please refresh and try again.');
+      }
+
+      const result = await this.db`
+        UPDATE orders
+        SET
+          metadata = ${JSON.stringify(metadata)}::jsonb,
+          version = version + 1,
+          updated_at = NOW()
+        WHERE id = ${orderId} AND version = ${currentOrder.version}
+        RETURNING *
+      `;
+
+      if (result.length === 0) {
+        throw new Error('Order was modified by another process. Please refresh and try again.');
+      }
+
+      this.invalidateOrderCache(orderId);
+
+      return this.mapRowToOrder(result[0]);
+    } catch (error) {
+      console.error('Error updating order metadata:', error);
+      throw error;
+    }
+  }
+
+  async getStatusHistory(orderId: string): Promise<OrderStatusHistoryEntry[]> {
+    try {
+      const result = await this.db`
+        SELECT * FROM order_status_history 
+        WHERE order_id = ${orderId} 
+        ORDER BY created_at ASC, id ASC
+      `;
+
+      return result.map(row => this.mapRowToHistoryEntry(row));
+    } catch (error) {
+      console.error('Error getting order status history:', error);
       throw error;
     }
   }
@@ -266,13 +786,41 @@ export class OrderService {
     return {
       id: row.id,
       user_id: row.user_id,
-      items: typeof row.items === 'string' ? JSON.parse(row.items) : row.items,
+      orderNumber: row.order_number ?? null,
+      items: OrderHelpers.fromStoredItems(typeof row.items === 'string' ? JSON.parse(row.items) : row.items, row.currency),
       status: row.status,
       client_token: row.client_token,
-      total_amount: parseFloat(row.total_amount),
+      currency: row.currency,
+      total_amount: Money.fromDb(row.total_amount, row.currency),
+      subtotal: row.subtotal != null ? Money.fromDb(row.subtotal, row.currency) : undefined,
+      discountAmount: row.discount_amount != null ? Money.fromDb(row.discount_amount, row.currency) : undefined,
+      shippingAmount: row.shipping_amount != null ? Money.fromDb(row.shipping_amount, row.currency) : undefined,
+      taxRate: row.tax_rate != null ? parseFloat(row.tax_rate) : undefined,
+      taxAmount: row.tax_amount != null ? Money.fromDb(row.tax_amount, row.currency) : undefined,
+      shippingAddress: typeof row.shipping_address === 'string' ? JSON.parse(row.shipping_address) : row.shipping_address ?? undefined,
+      shippingMethod: row.shipping_method ?? undefined,
+      trackingNumber: row.tracking_number ?? undefined,
+      notes: row.notes ?? undefined,
+      metadata: typeof row.metadata === 'string' ? JSON.parse(row.metadata) : row.metadata ?? undefined,
       version: row.version,
       created_at: new Date(row.created_at),
-      updated_at: new Date(row.updated_at)
+      updated_at: new Date(row.updated_at),
+      paidAt: row.paid_at ? new Date(row.paid_at) : undefined,
+      shippedAt: row.shipped_at ? new Date(row.shipped_at) : undefined,
+      deliveredAt: row.delivered_at ? new Date(row.delivered_at) : undefined
+    };
+  }
+
+  private mapRowToHistoryEntry(row: any): OrderStatusHistoryEntry {
+    return {
+      id: String(row.id),
+      order_id: String(row.order_id),
+      fromStatus: row.from_status,
+      toStatus: row.to_status,
+      version: row.version,
+      actor: row.actor_id ? { type: row.actor_type, id: String(row.actor_id) } : { type: row.actor_type },
+      ...(row.reason && { reason: row.reason }),
+      created_at: new Date(row.created_at)
     };
   }
 
@@ -287,5 +835,8 @@ export class OrderService {
     if (global.orderCache) {
       delete global.orderCache[orderId];
     }
+
+    // Route-level cache entries are keyed per viewer: order:<id>:<admin|userId>
+    cacheService.deleteByPrefix(`order:${orderId}:`);
   }
 }
\ No newline at end of file
@@ -0,0 +1,95 @@
+import { OrderStatus, type Order } from '../models/Order.js';
+import {
+  InvalidStatusTransitionError,
+  ORDER_TRANSITIONS,
+  OrderStateMachine,
+  PRE_SHIPMENT_STATUSES
+} from './orderStateMachine.js';
+
+const orderIn = (status: OrderStatus, overrides: Partial<Order> = {}): Order => ({
+  id: '1',
+  user_id: '7',
+  orderNumber: 'ORD-2026-000001',
+  items: [],
+  status,
+  client_token: 'token',
+  currency: 'KES',
+  total_amount: { amount: 0, currency: 'KES' },
+  version: 1,
+  created_at: new Date(),
+  updated_at: new Date(),
+  ...overrides
+});
+
+describe('ORDER_TRANSITIONS', () => {
+  it('has an entry for every status and only targets known statuses', () => {
+    const statuses = Object.values(OrderStatus);
+
+    expect(Object.keys(ORDER_TRANSITIONS).sort()).toEqual([...statuses].sort());
+    for (const transitions of Object.values(ORDER_TRANSITIONS)) {
+      for (const transition of transitions) {
+        expect(statuses).toContain(transition.to);
+      }
+    }
+  });
+
+  it('treats CANCELLED and REFUNDED as terminal', () => {
+    expect(OrderStateMachine.allowedTransitions(OrderStatus.CANCELLED)).toEqual([]);
+    expect(OrderStateMachine.allowedTransitions(OrderStatus.REFUNDED)).toEqual([]);
+  });
+
+  it('only allows cancelling before payment', () => {
+    const cancellable = Object.values(OrderStatus)
+      .filter(status => OrderStateMachine.allowedTransitions(status).includes(OrderStatus.CANCELLED));
+
+    expect(cancellable.sort()).toEqual([OrderStatus.CONFIRMED, OrderStatus.PENDING].sort());
+  });
+
+  it('keeps every pre-shipment status able to reach fulfilment', () => {
+    for (const status of PRE_SHIPMENT_STATUSES) {
+      expect(OrderStateMachine.allowedTransitions(status).length).toBeGreaterThan(0);
+    }
+  });
+});
+
+describe('OrderStateMachine.resolveTransition', () => {
+  it('commits stock and stamps paid_at when a pending order is paid', () => {
+    const transition = OrderStateMachine.resolveTransition(orderIn(OrderStatus.PENDING), OrderStatus.PAID);
+
+    expect(transition.inventory).toBe('commit');
+    expect(transition.stamps).toEqual(['paid_at']);
+  });
+
+  it('releases stock when an unpaid order is cancelled', () => {
+    expect(OrderStateMachine.resolveTransition(orderIn(OrderStatus.PENDING), OrderStatus.CANCELLED).inventory)
+      .toBe('release');
+    expect(OrderStateMachine.resolveTransition(orderIn(OrderStatus.CONFIRMED), OrderStatus.CANCELLED).inventory)
+      .toBe('release');
+  });
+
+  it('rejects skipping steps with the allowed targets attached', () => {
+    expect.assertions(4);
+
+    try {
+      OrderStateMachine.resolveTransition(orderIn(OrderStatus.PENDING), OrderStatus.SHIPPED);
+    } catch (error) {
+      expect(error).toBeInstanceOf(InvalidStatusTransitionError);
+      const transitionError = error as InvalidStatusTransitionError;
+      expect(transitionError.from).toBe(OrderStatus.PENDING);
+      expect(transitionError.to).toBe(OrderStatus.SHIPPED);
+      expect(transitionError.allowed).toEqual([OrderStatus.CONFIRMED, OrderStatus.PAID, OrderStatus.CANCELLED]);
+    }
+  });
+
+  it('rejects paying a cancelled order', () => {
+    expect(() => OrderStateMachine.resolveTransition(orderIn(OrderStatus.CANCELLED), OrderStatus.PAID))
+      .toThrow(InvalidStatusTransitionError);
+  });
+
+  it('blocks fulfilment of an order without a payment timestamp', () => {
+    expect(() => OrderStateMachine.resolveTransition(orderIn(OrderStatus.PAID), OrderStatus.PROCESSING))
+      .toThrow('order has not been paid');
+    expect(OrderStateMachine.resolveTransition(orderIn(OrderStatus.PAID, { paidAt: new Date() }), OrderStatus.PROCESSING).to)
+      .toBe(OrderStatus.PROCESSING);
+  });
+});
@@ -0,0 +1,105 @@
+import { OrderStatus, type Order } from '../models/Order.js';
+
+// Timestamp columns stamped (once) when an order enters a status
+export type OrderTimestampColumn = 'paid_at' | 'shipped_at' | 'delivered_at';
+
+// What happens to the order's stock reservation on entering a status
+export type InventoryEffect = 'commit' | 'release';
+
+// A single allowed move in the order lifecycle
+export interface OrderTransition {
+  to: OrderStatus;
+  // Returns a reason when the move is blocked for this particular order
+  guard?: (order: Order) => string | null;
+  stamps?: OrderTimestampColumn[];
+  inventory?: InventoryEffect;
+}
+
+const requirePayment = (order: Order): string | null =>
+  order.paidAt ? null : 'order has not been paid';
+
+// Order lifecycle transition table - every status change goes through here
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderTransition[]> = {
+  [OrderStatus.PENDING]: [
+    { to: OrderStatus.CONFIRMED },
+    { to: OrderStatus.PAID, stamps: ['paid_at'], inventory: 'commit' },
+    { to: OrderStatus.CANCELLED, inventory: 'release' }
+  ],
+  [OrderStatus.CONFIRMED]: [
+    { to: OrderStatus.PAID, stamps: ['paid_at'], inventory: 'commit' },
+    { to: OrderStatus.CANCELLED, inventory: 'release' }
+  ],
+  [OrderStatus.PAID]: [
+    { to: OrderStatus.PROCESSING, guard: requirePayment },
+    { to: OrderStatus.REFUNDED, guard: requirePayment }
+  ],
+  [OrderStatus.PROCESSING]: [
+    { to: OrderStatus.PARTIALLY_SHIPPED, guard: requirePayment, stamps: ['shipped_at'] },
+    { to: OrderStatus.SHIPPED, guard: requirePayment, stamps: ['shipped_at'] },
+    { to: OrderStatus.REFUNDED, guard: requirePayment }
+  ],
+  // Some but not all line quantities dispatched; derived from shipments
+  [OrderStatus.PARTIALLY_SHIPPED]: [
+    { to: OrderStatus.SHIPPED, stamps: ['shipped_at'] },
+    { to: OrderStatus.REFUNDED, guard: requirePayment }
+  ],
+  [OrderStatus.SHIPPED]: [
+    { to: OrderStatus.DELIVERED, stamps: ['delivered_at'] }
+  ],
+  [OrderStatus.DELIVERED]: [
+    { to: OrderStatus.REFUNDED, guard: requirePayment }
+  ],
+  [OrderStatus.CANCELLED]: [],
+  [OrderStatus.REFUNDED]: []
+};
+
+// Statuses in which nothing has left the warehouse yet
+export const PRE_SHIPMENT_STATUSES: OrderStatus[] = [
+  OrderStatus.PENDING,
+  OrderStatus.CONFIRMED,
+  OrderStatus.PAID,
+  OrderStatus.PROCESSING
+];
+
+export class InvalidStatusTransitionError extends Error {
+  override name = 'InvalidStatusTransitionError';
+
+  constructor(
+    public readonly from: OrderStatus,
+    public readonly to: OrderStatus,
+    public readonly allowed: OrderStatus[],
+    reason?: string
+  ) {
+    super(reason
+      ? `Cannot change order status from ${from} to ${to}: ${reason}`
+      : `Cannot change order status from ${from} to ${to}`);
+  }
+}
+
+export const OrderStateMachine = {
+  /**
+   * List the statuses an order may move to from the given status
+   */
+  allowedTransitions(from: OrderStatus): OrderStatus[] {
+    return (ORDER_TRANSITIONS[from] ?? []).map(transition => transition.to);
+  },
+
+  /**
+   * Resolve the transition for an order, throwing if it is not allowed
+   */
+  resolveTransition(order: Order, to: OrderStatus): OrderTransition {
+    const allowed = this.allowedTransitions(order.status);
+    const transition = (ORDER_TRANSITIONS[order.status] ?? []).find(t => t.to === to);
+
+    if (!transition) {
+      throw new InvalidStatusTransitionError(order.status, to, allowed);
+    }
+
+    const blockedReason = transition.guard?.(order);
+    if (blockedReason) {
+      throw new InvalidStatusTransitionError(order.status, to, allowed, blockedReason);
+    }
+
+    return transition;
+  }
+};
@@ -0,0 +1,42 @@
+import { Money } from '../models/Money.js';
+import { paymentProviderService } from './paymentProviderService.js';
+
+const request = { refundId: 'rf_1', paymentId: 'pay_1', transactionId: 'txn_1', amount: Money.of(150000, 'KES') };
+
+const answer = (status: number, body: unknown) =>
+  jest.spyOn(global, 'fetch').mockResolvedValue(new Response(JSON.stringify(body), { status }));
+
+describe('paymentProviderService.refund', () => {
+  beforeEach(() => jest.spyOn(console, 'error').mockImplementation(() => {}));
+  afterEach(() => jest.restoreAllMocks());
+
+  it('sends the refund id as the idempotency key with the amount in minor units', async () => {
+    const fetchMock = answer(200, { status: 'SUCCESS', reference: 're_9' });
+
+    await expect(paymentProviderService.refund(request)).resolves.toEqual({ status: 'SUCCESS', reference: 're_9' });
+
+    const [, init] = fetchMock.mock.calls[0]!;
+    expect((init!.headers as Record<string, string>)['Idempotency-Key']).toBe('rf_1');
+    expect(JSON.parse(init!.body as string)).toMatchObject({ amount: 150000, currency: 'KES', transaction_id: 'txn_1' });
+  });
+
+  it('reports refusals as FAILED with the provider reason', async () => {
+    answer(402, { failure_reason: 'Card account closed' });
+
+    await expect(paymentProviderService.refund(request)).resolves.toEqual({ status: 'FAILED', reason: 'Card account closed' });
+  });
+
+  it('leaves the outcome unknown on provider errors and unconfirmed answers', async () => {
+    answer(503, {});
+    await expect(paymentProviderService.refund(request)).resolves.toEqual({ status: 'PENDING' });
+
+    answer(202, { status: 'PROCESSING' });
+    await expect(paymentProviderService.refund(request)).resolves.toEqual({ status: 'PENDING' });
+  });
+
+  it('leaves the outcome unknown when the provider cannot be reached', async () => {
+    jest.spyOn(global, 'fetch').mockRejectedValue(new TypeError('fetch failed'));
+
+    await expect(paymentProviderService.refund(request)).resolves.toEqual({ status: 'PENDING' });
+  });
+});
@@ -0,0 +1,73 @@
+import type { Money } from '../models/Money.js';
+
+// Payment provider API used for refunds; payments themselves are taken on the provider's page
+const PAYMENT_PROVIDER_URL = process.env.PAYMENT_PROVIDER_URL || 'https://payment-provider.example.com';
+
+// Give up waiting after this long; the refund then stays PENDING and is retried
+const PAYMENT_PROVIDER_TIMEOUT_MS = parseInt(process.env.PAYMENT_PROVIDER_TIMEOUT_MS || '10000');
+
+export interface RefundRequest {
+  // Our refund id; sent as the idempotency key, so retrying never refunds twice
+  refundId: string;
+  paymentId: string;
+  transactionId?: string;
+  amount: Money;
+}
+
+// SUCCESS and FAILED are final; PENDING means the outcome is not known yet
+export type RefundOutcome =
+  | { status: 'SUCCESS'; reference?: string }
+  | { status: 'FAILED'; reason: string }
+  | { status: 'PENDING' };
+
+class PaymentProviderService {
+  /**
+   * Ask the provider to refund part or all of a captured payment. Timeouts, network
+   * errors and 5xx answers leave the outcome unknown (PENDING); 4xx answers are refusals.
+   */
+  async refund(request: RefundRequest): Promise<RefundOutcome> {
+    let response: Response;
+    try {
+      response = await fetch(`${PAYMENT_PROVIDER_URL}/refunds`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${process.env.PAYMENT_PROVIDER_API_KEY ?? ''}`,
+          'Idempotency-Key': request.refundId
+        },
+        body: JSON.stringify({
+          refund_id: request.refundId,
+          payment_id: request.paymentId,
+          transaction_id: request.transactionId ?? null,
+          amount: request.amount.amount,
+          currency: request.amount.currency
+        }),
+        signal: AbortSignal.timeout(PAYMENT_PROVIDER_TIMEOUT_MS)
+      });
+    } catch (error) {
+      console.error(`Refund ${request.refundId} could not reach the payment provider:`, error);
+      return { status: 'PENDING' };
+    }
+
+    const body: any = await response.json().catch(() => ({}));
+
+    if (response.status >= 500) {
+      console.error(`Refund ${request.refundId}: payment provider answered ${response.status}`);
+      return { status: 'PENDING' };
+    }
+
+    if (!response.ok || body.status === 'FAILED') {
+      return { status: 'FAILED', reason: body.failure_reason || body.error || `Provider rejected the refund (${response.status})` };
+    }
+
+    return body.status === 'SUCCESS'
+      ? { status: 'SUCCESS', ...(body.reference && { reference: String(body.reference) }) }
+      : { status: 'PENDING' };
+  }
+}
+
+// Export singleton instance
+export const paymentProviderService = new PaymentProviderService();
+
+// Also export the class for testing purposes
+export { PaymentProviderService };
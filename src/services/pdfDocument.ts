@@ -0,0 +1,97 @@
+// Minimal PDF 1.4 writer: A4 pages with text in the standard Helvetica fonts and
+// horizontal rules. Enough for invoices without pulling in a PDF library.
+
+export const PAGE_WIDTH = 595;
+export const PAGE_HEIGHT = 842;
+
+export type PdfFont = 'regular' | 'bold';
+
+export interface PdfTextOptions {
+  size?: number;
+  font?: PdfFont;
+  align?: 'left' | 'right';
+}
+
+const FONT_RESOURCES: Record<PdfFont, string> = {
+  regular: 'F1',
+  bold: 'F2'
+};
+
+// Helvetica advance widths (1/1000 em) for the characters that matter when right-aligning amounts
+const GLYPH_WIDTHS: Record<string, number> = {
+  ' ': 278, ',': 278, '.': 278, '-': 333, '%': 889, '(': 333, ')': 333, '/': 278, ':': 278,
+  '0': 556, '1': 556, '2': 556, '3': 556, '4': 556, '5': 556, '6': 556, '7': 556, '8': 556, '9': 556
+};
+const DEFAULT_GLYPH_WIDTH = 600;
+
+// Standard fonts only cover Latin-1; anything else is shown as '?'
+const toLatin1 = (value: string): string => value.replace(/[^\x20-\x7e\xa0-\xff]/g, '?');
+
+const escapeText = (value: string): string => toLatin1(value).replace(/[\\()]/g, match => `\\${match}`);
+
+/**
+ * Approximate rendered width of a string in points
+ */
+export const textWidth = (value: string, size: number): number =>
+  [...value].reduce((sum, char) => sum + (GLYPH_WIDTHS[char] ?? DEFAULT_GLYPH_WIDTH), 0) * size / 1000;
+
+export class PdfDocument {
+  private pages: string[][] = [[]];
+
+  addPage(): void {
+    this.pages.push([]);
+  }
+
+  /**
+   * Draw text with its baseline at y (points from the bottom of the page); right-aligned text ends at x
+   */
+  text(x: number, y: number, value: string, options: PdfTextOptions = {}): void {
+    const { size = 10, font = 'regular', align = 'left' } = options;
+    const left = align === 'right' ? x - textWidth(value, size) : x;
+    this.currentPage().push(
+      `BT /${FONT_RESOURCES[font]} ${size} Tf ${left.toFixed(2)} ${y.toFixed(2)} Td (${escapeText(value)}) Tj ET`
+    );
+  }
+
+  rule(x1: number, x2: number, y: number): void {
+    this.currentPage().push(`0.5 w ${x1} ${y} m ${x2} ${y} l S`);
+  }
+
+  toBuffer(): Buffer {
+    const objects: string[] = [
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      '', // page tree, filled in once the page ids are known
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>'
+    ];
+
+    const pageIds = this.pages.map(operations => {
+      const content = operations.join('\n');
+      const contentId = objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+      return objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentId} 0 R >>`
+      );
+    });
+    objects[1] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+
+    // Every character is Latin-1, so string offsets are byte offsets
+    let output = '%PDF-1.4\n';
+    const offsets = objects.map((body, index) => {
+      const offset = output.length;
+      output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+      return offset;
+    });
+
+    const xrefOffset = output.length;
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    output += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(output, 'latin1');
+  }
+
+  private currentPage(): string[] {
+    return this.pages[this.pages.length - 1]!;
+  }
+}
@@ -0,0 +1,130 @@
+import { ShippingMethod, UnsupportedCurrencyError, type OrderItem, type ShippingAddress } from '../models/Order.js';
+import { Money } from '../models/Money.js';
+import { pricingService } from './pricingService.js';
+
+const item = (sku: string, quantity: number, majorPrice: number): OrderItem => ({
+  sku,
+  quantity,
+  price: Money.fromMajor(majorPrice, 'KES')
+});
+
+const addressIn = (country: string): ShippingAddress => ({
+  firstName: 'Amina',
+  lastName: 'Otieno',
+  addressLine1: '1 Kenyatta Avenue',
+  city: 'Nairobi',
+  state: 'Nairobi',
+  postalCode: '00100',
+  country
+});
+
+describe('pricingService.price', () => {
+  it('prices a domestic standard order line by line', () => {
+    const pricing = pricingService.price({
+      items: [item('MUG-1', 2, 1000), item('TEE-1', 1, 500)],
+      currency: 'KES',
+      shippingMethod: ShippingMethod.STANDARD,
+      shippingAddress: addressIn('KE')
+    });
+
+    expect(pricing.lines.map(line => line.lineTotal)).toEqual([Money.of(200000, 'KES'), Money.of(50000, 'KES')]);
+    expect(pricing.subtotal).toEqual(Money.of(250000, 'KES'));
+    expect(pricing.discountAmount).toEqual(Money.zero('KES'));
+    expect(pricing.shippingAmount).toEqual(Money.of(30000, 'KES'));
+    expect(pricing.taxRate).toBe(0.16);
+    // 16% of goods plus shipping
+    expect(pricing.taxAmount).toEqual(Money.of(44800, 'KES'));
+    expect(pricing.total).toEqual(Money.of(324800, 'KES'));
+  });
+
+  it('ships large domestic standard orders for free', () => {
+    const pricing = pricingService.price({
+      items: [item('DESK-1', 1, 5000)],
+      currency: 'KES',
+      shippingMethod: ShippingMethod.STANDARD,
+      shippingAddress: addressIn('KE')
+    });
+
+    expect(pricing.shippingAmount).toEqual(Money.zero('KES'));
+    expect(pricing.total).toEqual(Money.of(580000, 'KES'));
+  });
+
+  it('adds the international surcharge and taxes at the destination rate', () => {
+    const pricing = pricingService.price({
+      items: [item('DESK-1', 1, 5000)],
+      currency: 'KES',
+      shippingMethod: ShippingMethod.STANDARD,
+      shippingAddress: addressIn('gb')
+    });
+
+    expect(pricing.shippingAmount).toEqual(Money.of(230000, 'KES'));
+    expect(pricing.taxRate).toBe(0.2);
+    expect(pricing.taxAmount).toEqual(Money.of(146000, 'KES'));
+  });
+
+  it('falls back to the default tax rate for countries without a configured rate', () => {
+    const pricing = pricingService.price({
+      items: [item('MUG-1', 1, 1000)],
+      currency: 'KES',
+      shippingMethod: ShippingMethod.EXPRESS,
+      shippingAddress: addressIn('US')
+    });
+
+    expect(pricing.taxRate).toBe(0.16);
+    expect(pricing.shippingAmount).toEqual(Money.of(280000, 'KES'));
+  });
+
+  it('charges no shipping for pickup orders', () => {
+    const pricing = pricingService.price({
+      items: [item('MUG-1', 1, 1000)],
+      currency: 'KES',
+      shippingMethod: ShippingMethod.PICKUP
+    });
+
+    expect(pricing.shippingAmount).toEqual(Money.zero('KES'));
+    expect(pricing.total).toEqual(Money.of(116000, 'KES'));
+  });
+
+  it('reprices shipping and tax when only the destination changes', () => {
+    const items = [item('MUG-1', 1, 1000)];
+    const domestic = pricingService.price({ items, currency: 'KES', shippingMethod: ShippingMethod.STANDARD, shippingAddress: addressIn('KE') });
+    const abroad = pricingService.price({ items, currency: 'KES', shippingMethod: ShippingMethod.STANDARD, shippingAddress: addressIn('TZ') });
+
+    expect(abroad.subtotal).toEqual(domestic.subtotal);
+    expect(Money.compare(abroad.shippingAmount, domestic.shippingAmount)).toBe(1);
+    expect(abroad.taxRate).toBe(0.18);
+    expect(Money.compare(abroad.total, domestic.total)).toBe(1);
+  });
+
+  it('refuses currencies the catalog has no rate for', () => {
+    expect(() => pricingService.price({
+      items: [{ sku: 'MUG-1', quantity: 1, price: Money.of(770, 'USD') }],
+      currency: 'USD',
+      shippingMethod: ShippingMethod.STANDARD
+    })).toThrow(UnsupportedCurrencyError);
+  });
+
+  it('converts the catalog-currency fees and thresholds to the order currency', () => {
+    process.env.CURRENCY_RATES = 'USD:0.0077';
+    try {
+      jest.isolateModules(() => {
+        const { pricingService: ratedPricing } = require('./pricingService.js');
+        const usdItem = (majorPrice: number): OrderItem => ({ sku: 'MUG-1', quantity: 1, price: Money.fromMajor(majorPrice, 'USD') });
+        const price = (majorPrice: number) => ratedPricing.price({
+          items: [usdItem(majorPrice)],
+          currency: 'USD',
+          shippingMethod: ShippingMethod.STANDARD,
+          shippingAddress: addressIn('KE')
+        });
+
+        // 300 KES standard shipping = 2.31 USD
+        expect(price(10).shippingAmount).toEqual(Money.of(231, 'USD'));
+        // Free shipping from 5,000 KES = 38.50 USD
+        expect(price(38.49).shippingAmount).toEqual(Money.of(231, 'USD'));
+        expect(price(38.5).shippingAmount).toEqual(Money.zero('USD'));
+      });
+    } finally {
+      delete process.env.CURRENCY_RATES;
+    }
+  });
+});
@@ -0,0 +1,162 @@
+import { OrderHelpers, ShippingMethod, type OrderItem, type ShippingAddress } from '../models/Order.js';
+import { Money } from '../models/Money.js';
+
+// Pricing pipeline: subtotal -> discount -> shipping -> tax -> total
+// Amounts are Money in the order's currency (integer minor units). Configured fees and
+// thresholds below are in major units of CATALOG_CURRENCY (300 = 300.00 KES) and are
+// converted to the order's currency with OrderHelpers.fromCatalog.
+
+// VAT rates by destination country (ISO 3166-1 alpha-2)
+export const TAX_RATES: Record<string, number> = {
+  KE: 0.16,
+  TZ: 0.18,
+  UG: 0.18,
+  RW: 0.18,
+  NG: 0.075,
+  ZA: 0.15,
+  GB: 0.2,
+  DE: 0.19,
+  FR: 0.2,
+  NL: 0.21
+};
+
+// Flat shipping fee by method in major units, before the international surcharge
+export const SHIPPING_RATES: Record<ShippingMethod, number> = {
+  [ShippingMethod.STANDARD]: 300,
+  [ShippingMethod.EXPRESS]: 800,
+  [ShippingMethod.PICKUP]: 0
+};
+
+const pricingConfig = {
+  originCountry: (process.env.SHIP_FROM_COUNTRY || 'KE').toUpperCase(),
+  defaultTaxRate: parseFloat(process.env.DEFAULT_TAX_RATE || '0.16'),
+  internationalSurcharge: parseInt(process.env.INTERNATIONAL_SHIPPING_SURCHARGE || '2000'),
+  freeShippingThreshold: parseInt(process.env.FREE_SHIPPING_THRESHOLD || '5000'),
+  // Order-level promotion, disabled unless both values are set
+  discountThreshold: parseInt(process.env.ORDER_DISCOUNT_THRESHOLD || '0'),
+  discountPercent: parseFloat(process.env.ORDER_DISCOUNT_PERCENT || '0')
+};
+
+export interface PricingInput {
+  items: OrderItem[];
+  currency: string;
+  shippingMethod: ShippingMethod;
+  shippingAddress?: ShippingAddress;
+}
+
+export interface PricedLine {
+  sku: string;
+  quantity: number;
+  unitPrice: Money;
+  lineTotal: Money;
+}
+
+export interface PriceBreakdown {
+  lines: PricedLine[];
+  subtotal: Money;
+  discountAmount: Money;
+  shippingAmount: Money;
+  taxRate: number;
+  taxAmount: Money;
+  total: Money;
+}
+
+type PricingStep = (input: PricingInput, breakdown: PriceBreakdown) => PriceBreakdown;
+
+const subtotalStep: PricingStep = (input, breakdown) => {
+  const lines = input.items.map(item => ({
+    sku: item.sku,
+    quantity: item.quantity,
+    unitPrice: item.price,
+    lineTotal: Money.multiply(item.price, item.quantity)
+  }));
+
+  return {
+    ...breakdown,
+    lines,
+    subtotal: Money.sum(lines.map(line => line.lineTotal), input.currency)
+  };
+};
+
+const discountStep: PricingStep = (input, breakdown) => {
+  const { discountThreshold, discountPercent } = pricingConfig;
+  if (discountThreshold <= 0 ||
+      discountPercent <= 0 ||
+      Money.compare(breakdown.subtotal, OrderHelpers.fromCatalog(discountThreshold, input.currency)) < 0) {
+    return breakdown;
+  }
+
+  return {
+    ...breakdown,
+    discountAmount: Money.min(breakdown.subtotal, Money.multiply(breakdown.subtotal, discountPercent))
+  };
+};
+
+const shippingStep: PricingStep = (input, breakdown) => {
+  if (input.shippingMethod === ShippingMethod.PICKUP) {
+    return { ...breakdown, shippingAmount: Money.zero(input.currency) };
+  }
+
+  const destination = input.shippingAddress?.country.toUpperCase() ?? pricingConfig.originCountry;
+  const international = destination !== pricingConfig.originCountry;
+  const discountedSubtotal = Money.subtract(breakdown.subtotal, breakdown.discountAmount);
+
+  // Free standard delivery for large domestic orders
+  if (!international &&
+      input.shippingMethod === ShippingMethod.STANDARD &&
+      Money.compare(discountedSubtotal, OrderHelpers.fromCatalog(pricingConfig.freeShippingThreshold, input.currency)) >= 0) {
+    return { ...breakdown, shippingAmount: Money.zero(input.currency) };
+  }
+
+  return {
+    ...breakdown,
+    shippingAmount: OrderHelpers.fromCatalog(
+      SHIPPING_RATES[input.shippingMethod] + (international ? pricingConfig.internationalSurcharge : 0),
+      input.currency
+    )
+  };
+};
+
+const taxStep: PricingStep = (input, breakdown) => {
+  const destination = input.shippingAddress?.country.toUpperCase() ?? pricingConfig.originCountry;
+  const taxRate = TAX_RATES[destination] ?? pricingConfig.defaultTaxRate;
+  const taxable = Money.add(Money.subtract(breakdown.subtotal, breakdown.discountAmount), breakdown.shippingAmount);
+
+  return { ...breakdown, taxRate, taxAmount: Money.multiply(taxable, taxRate) };
+};
+
+const totalStep: PricingStep = (_input, breakdown) => ({
+  ...breakdown,
+  total: Money.sum(
+    [Money.subtract(breakdown.subtotal, breakdown.discountAmount), breakdown.shippingAmount, breakdown.taxAmount],
+    breakdown.subtotal.currency
+  )
+});
+
+class PricingService {
+  private steps: PricingStep[] = [subtotalStep, discountStep, shippingStep, taxStep, totalStep];
+
+  /**
+   * Run the pricing pipeline and return an itemised breakdown
+   */
+  price(input: PricingInput): PriceBreakdown {
+    const zero = Money.zero(input.currency);
+    const initial: PriceBreakdown = {
+      lines: [],
+      subtotal: zero,
+      discountAmount: zero,
+      shippingAmount: zero,
+      taxRate: 0,
+      taxAmount: zero,
+      total: zero
+    };
+
+    return this.steps.reduce((breakdown, step) => step(input, breakdown), initial);
+  }
+}
+
+// Export singleton instance
+export const pricingService = new PricingService();
+
+// Also export the class for testing purposes
+export { PricingService };
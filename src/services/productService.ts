@@ -0,0 +1,207 @@
+import { sql } from '../config/database.ts';
+import { CATALOG_CURRENCY, OrderHelpers, type OrderItem, type OrderItemRequest } from '../models/Order.js';
+import { Money } from '../models/Money.js';
+import {
+  ProductHelpers,
+  type CreateProductInput,
+  type Product,
+  type ProductFilters,
+  type ProductVariant,
+  type StoredProductVariant,
+  type UpdateProductInput
+} from '../models/Product.js';
+
+// products.variants holds bare minor units; the API works with Money
+const toStoredVariants = (variants: ProductVariant[]): StoredProductVariant[] =>
+  variants.map(({ unitPrice, ...variant }) => ({
+    ...variant,
+    ...(unitPrice && { unitPrice: unitPrice.amount })
+  }));
+
+// Raised when order items reference SKUs the catalog cannot sell
+export class CatalogValidationError extends Error {
+  override name = 'CatalogValidationError';
+
+  constructor(
+    public readonly unknownSkus: string[],
+    public readonly inactiveSkus: string[],
+    public readonly unknownVariants: string[] = []
+  ) {
+    super('Order contains items that are not available in the catalog');
+  }
+}
+
+export class ProductService {
+  constructor(private db: typeof sql) {}
+
+  async createProduct(input: CreateProductInput): Promise<Product> {
+    try {
+      const result = await this.db`
+        INSERT INTO products (sku, name, description, unit_price, active, variants, created_at, updated_at)
+        VALUES (
+          ${input.sku}, ${input.name}, ${input.description ?? null}, ${input.unitPrice.amount},
+          ${input.active ?? true}, ${JSON.stringify(toStoredVariants(input.variants ?? []))}::jsonb, NOW(), NOW()
+        )
+        RETURNING *
+      `;
+
+      return this.mapRowToProduct(result[0]);
+    } catch (error: any) {
+      console.error('Error creating product:', error);
+
+      // Handle unique constraint violation
+      if (error.code === '23505') {
+        throw new Error('Product already exists');
+      }
+
+      throw error;
+    }
+  }
+
+  async getProducts(filters: ProductFilters = {}): Promise<{ products: Product[], total: number }> {
+    try {
+      const active = filters.active ?? null;
+      const search = filters.q ? `%${filters.q}%` : null;
+      const limit = filters.limit ?? 20;
+      const offset = filters.offset ?? 0;
+
+      const totalResult = await this.db`
+        SELECT COUNT(*) as count FROM products
+        WHERE (${active}::boolean IS NULL OR active = ${active}::boolean)
+          AND (${search}::text IS NULL OR sku ILIKE ${search}::text OR name ILIKE ${search}::text)
+      `;
+
+      const result = await this.db`
+        SELECT * FROM products
+        WHERE (${active}::boolean IS NULL OR active = ${active}::boolean)
+          AND (${search}::text IS NULL OR sku ILIKE ${search}::text OR name ILIKE ${search}::text)
+        ORDER BY sku ASC
+        LIMIT ${limit} OFFSET ${offset}
+      `;
+
+      return {
+        products: result.map(row => this.mapRowToProduct(row)),
+        total: parseInt(totalResult[0]!.count)
+      };
+    } catch (error) {
+      console.error('Error getting products:', error);
+      throw error;
+    }
+  }
+
+  async getProductBySku(sku: string): Promise<Product | null> {
+    try {
+      const result = await this.db`
+        SELECT * FROM products WHERE sku = ${sku}
+      `;
+
+      return result.length > 0 ? this.mapRowToProduct(result[0]) : null;
+    } catch (error) {
+      console.error('Error getting product by SKU:', error);
+      throw error;
+    }
+  }
+
+  async updateProduct(sku: string, input: UpdateProductInput): Promise<Product | null> {
+    try {
+      const result = await this.db`
+        UPDATE products
+        SET
+          name = COALESCE(${input.name ?? null}, name),
+          description = COALESCE(${input.description ?? null}, description),
+          unit_price = COALESCE(${input.unitPrice?.amount ?? null}::bigint, unit_price),
+          active = COALESCE(${input.active ?? null}::boolean, active),
+          variants = COALESCE(${input.variants ? JSON.stringify(toStoredVariants(input.variants)) : null}::jsonb, variants),
+          updated_at = NOW()
+        WHERE sku = ${sku}
+        RETURNING *
+      `;
+
+      return result.length > 0 ? this.mapRowToProduct(result[0]) : null;
+    } catch (error) {
+      console.error('Error updating product:', error);
+      throw error;
+    }
+  }
+
+  async deactivateProduct(sku: string): Promise<Product | null> {
+    // Products are never hard-deleted: past orders keep referencing their SKU
+    return this.updateProduct(sku, { active: false });
+  }
+
+  /**
+   * Price order items from the catalog in the order's currency.
+   * Throws CatalogValidationError for unknown or inactive SKUs and variants.
+   */
+  async resolveOrderItems(items: OrderItemRequest[], currency: string): Promise<OrderItem[]> {
+    try {
+      const skus = [...new Set(items.map(item => item.sku))];
+      const result = await this.db`
+        SELECT * FROM products WHERE sku = ANY(${skus})
+      `;
+      const catalog = new Map<string, Product>(
+        result.map(row => [row.sku as string, this.mapRowToProduct(row)])
+      );
+
+      const unknownSkus: string[] = [];
+      const inactiveSkus: string[] = [];
+      const unknownVariants: string[] = [];
+
+      const resolved = items.map(item => {
+        const product = catalog.get(item.sku);
+        if (!product) {
+          unknownSkus.push(item.sku);
+          return null;
+        }
+        if (!product.active) {
+          inactiveSkus.push(item.sku);
+          return null;
+        }
+
+        const variant = item.variant ? ProductHelpers.findActiveVariant(product, item.variant) : undefined;
+        if (item.variant && !variant) {
+          unknownVariants.push(`${item.sku}:${item.variant}`);
+          return null;
+        }
+
+        // Snapshot catalog name and price (in the order's currency) onto the line item
+        return {
+          sku: product.sku,
+          quantity: item.quantity,
+          price: OrderHelpers.convertFromCatalog(ProductHelpers.unitPriceFor(product, variant), currency),
+          productName: variant ? `${product.name} (${variant.name})` : product.name,
+          ...(item.variant && { variant: item.variant })
+        };
+      });
+
+      if (unknownSkus.length > 0 || inactiveSkus.length > 0 || unknownVariants.length > 0) {
+        throw new CatalogValidationError(unknownSkus, inactiveSkus, unknownVariants);
+      }
+
+      return resolved as OrderItem[];
+    } catch (error) {
+      console.error('Error resolving order items:', error);
+      throw error;
+    }
+  }
+
+  private mapRowToProduct(row: any): Product {
+    const variants: StoredProductVariant[] =
+      typeof row.variants === 'string' ? JSON.parse(row.variants) : row.variants ?? [];
+
+    return {
+      id: String(row.id),
+      sku: row.sku,
+      name: row.name,
+      ...(row.description && { description: row.description }),
+      unitPrice: Money.fromDb(row.unit_price, CATALOG_CURRENCY),
+      active: row.active,
+      variants: variants.map(({ unitPrice, ...variant }) => ({
+        ...variant,
+        ...(unitPrice !== undefined && { unitPrice: Money.of(unitPrice, CATALOG_CURRENCY) })
+      })),
+      created_at: new Date(row.created_at),
+      updated_at: new Date(row.updated_at)
+    };
+  }
+}
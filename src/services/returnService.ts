@@ -0,0 +1,571 @@
+import crypto from 'crypto';
+import { sql } from '../config/database.ts';
+import { OrderStatus, type Order } from '../models/Order.js';
+import {
+  RETURN_TRANSITIONS,
+  ReturnStatus,
+  type CreateReturnInput,
+  type ReturnActor,
+  type ReturnEvent,
+  type ReturnItem,
+  type ReturnReceiptLine,
+  type ReturnRequest,
+  type StoredReturnItem
+} from '../models/Return.js';
+import { Money } from '../models/Money.js';
+import { OrderService } from './orderService.js';
+import { InventoryService } from './inventoryService.js';
+import { InvoiceService } from './invoiceService.js';
+import { paymentProviderService } from './paymentProviderService.js';
+import { cacheService } from './cacheService.js';
+
+// Days after delivery during which a return can be opened
+const RETURN_WINDOW_DAYS = parseInt(process.env.RETURN_WINDOW_DAYS || '30');
+
+// Payment statuses (payments table) a refund can be issued against
+const REFUNDABLE_PAYMENT_STATUSES = ['SUCCESS', 'PARTIALLY_REFUNDED'];
+
+// Raised when a return is asked to skip or repeat a step
+export class InvalidReturnTransitionError extends Error {
+  override name = 'InvalidReturnTransitionError';
+
+  constructor(
+    public readonly from: ReturnStatus,
+    public readonly to: ReturnStatus,
+    public readonly allowed: ReturnStatus[]
+  ) {
+    super(`Cannot move return from ${from} to ${to}`);
+  }
+}
+
+// Raised when requested return lines do not match what can still be returned
+export class ReturnItemsError extends Error {
+  override name = 'ReturnItemsError';
+
+  constructor(public readonly problems: string[]) {
+    super('Return items do not match the returnable items on the order');
+  }
+}
+
+// Raised when the provider refused a refund; the return stays RECEIVED and can be refunded again
+export class RefundFailedError extends Error {
+  override name = 'RefundFailedError';
+
+  constructor(public readonly reason: string) {
+    super(`Refund failed: ${reason}`);
+  }
+}
+
+// Raised when the provider has not confirmed a refund yet; refunding again settles the same refund
+export class RefundPendingError extends Error {
+  override name = 'RefundPendingError';
+
+  constructor(public readonly refundId: string) {
+    super('Refund is pending with the payment provider');
+  }
+}
+
+// Optional column changes made together with a status step
+interface ReturnChanges {
+  items?: ReturnItem[];
+  refundReference?: string;
+}
+
+const lineKey = (item: { sku: string; variant?: string }) => `${item.sku}:${item.variant ?? ''}`;
+
+const toStoredItems = (items: ReturnItem[]): StoredReturnItem[] =>
+  items.map(item => ({ ...item, unitPrice: item.unitPrice.amount }));
+
+export class ReturnService {
+  private orders: OrderService;
+  private inventory: InventoryService;
+  private invoices: InvoiceService;
+
+  constructor(private db: typeof sql) {
+    this.orders = new OrderService(db);
+    this.inventory = new InventoryService(db);
+    this.invoices = new InvoiceService(db);
+  }
+
+  /**
+   * Open a return for delivered items of the customer's own order
+   */
+  async createReturn(orderId: string, userId: string, input: CreateReturnInput): Promise<ReturnRequest> {
+    try {
+      const order = await this.orders.getOrderById(orderId, userId, 'USER');
+      if (!order) {
+        throw new Error('Order not found');
+      }
+
+      if (order.status !== OrderStatus.DELIVERED) {
+        throw new Error('Only delivered orders can be returned');
+      }
+
+      const deliveredAt = order.deliveredAt ?? order.updated_at;
+      if (Date.now() - deliveredAt.getTime() > RETURN_WINDOW_DAYS * 24 * 60 * 60 * 1000) {
+        throw new Error(`Returns must be opened within ${RETURN_WINDOW_DAYS} days of delivery`);
+      }
+
+      const existing = await this.getReturnsForOrder(orderId);
+      const items = this.resolveItems(order, existing, input.items);
+      const refundAmount = this.refundValue(order, items);
+      const actor: ReturnActor = { type: 'user', id: String(userId) };
+
+      const result = await this.db`
+        WITH next AS (
+          SELECT nextval(pg_get_serial_sequence('returns', 'id')) AS id
+        ), created AS (
+          INSERT INTO returns (id, rma_number, order_id, user_id, status, reason, items, currency, refund_amount, created_at, updated_at)
+          SELECT
+            next.id, 'RMA-' || lpad(next.id::text, 6, '0'), ${orderId}, ${userId}, ${ReturnStatus.REQUESTED},
+            ${input.reason}, ${JSON.stringify(toStoredItems(items))}::jsonb, ${order.currency}, ${refundAmount.amount}, NOW(), NOW()
+          FROM next
+          RETURNING *
+        ), event AS (
+          INSERT INTO return_events (return_id, from_status, to_status, actor_type, actor_id, note, created_at)
+          SELECT id, NULL, status, ${actor.type}, ${actor.id}, ${input.reason}, NOW() FROM created
+        )
+        SELECT * FROM created
+      `;
+
+      this.invalidateOrderCache(orderId);
+
+      return (await this.getReturnById(String(result[0]!.id)))!;
+    } catch (error) {
+      console.error('Error creating return:', error);
+      throw error;
+    }
+  }
+
+  async getReturnById(returnId: string): Promise<ReturnRequest | null> {
+    try {
+      const [returnRows, eventRows] = await this.db.transaction([
+        this.db`SELECT * FROM returns WHERE id = ${returnId}`,
+        this.db`SELECT * FROM return_events WHERE return_id = ${returnId} ORDER BY created_at, id`
+      ]);
+
+      return returnRows!.length > 0 ? this.mapRowToReturn(returnRows![0], eventRows!) : null;
+    } catch (error) {
+      console.error('Error getting return:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Returns of an order with their audit trails, oldest first
+   */
+  async getReturnsForOrder(orderId: string): Promise<ReturnRequest[]> {
+    try {
+      const [returnRows, eventRows] = await this.db.transaction([
+        this.db`SELECT * FROM returns WHERE order_id = ${orderId} ORDER BY created_at, id`,
+        this.db`
+          SELECT e.* FROM return_events e
+          JOIN returns r ON r.id = e.return_id
+          WHERE r.order_id = ${orderId}
+          ORDER BY e.created_at, e.id
+        `
+      ]);
+
+      return returnRows!.map(row => this.mapRowToReturn(
+        row,
+        eventRows!.filter(event => String(event.return_id) === String(row.id))
+      ));
+    } catch (error) {
+      console.error('Error getting returns:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Admin work queue: returns by status, oldest first
+   */
+  async listReturns(status: ReturnStatus | undefined, limit: number, offset: number): Promise<{ returns: ReturnRequest[]; total: number }> {
+    try {
+      const [totalResult, rows] = await this.db.transaction([
+        this.db`SELECT COUNT(*) AS count FROM returns WHERE ${status ?? null}::text IS NULL OR status = ${status ?? null}`,
+        this.db`
+          SELECT * FROM returns
+          WHERE ${status ?? null}::text IS NULL OR status = ${status ?? null}
+          ORDER BY created_at, id
+          LIMIT ${limit} OFFSET ${offset}
+        `
+      ]);
+
+      return {
+        returns: rows!.map(row => this.mapRowToReturn(row, [])),
+        total: parseInt(totalResult![0]!.count)
+      };
+    } catch (error) {
+      console.error('Error listing returns:', error);
+      throw error;
+    }
+  }
+
+  async approveReturn(returnId: string, currentVersion: number, actor: ReturnActor, note?: string): Promise<ReturnRequest> {
+    return this.applyStep(returnId, ReturnStatus.APPROVED, currentVersion, actor, note);
+  }
+
+  async rejectReturn(returnId: string, currentVersion: number, actor: ReturnActor, note: string): Promise<ReturnRequest> {
+    return this.applyStep(returnId, ReturnStatus.REJECTED, currentVersion, actor, note);
+  }
+
+  /**
+   * Record that the goods arrived back; restockable units go back on hand in the same transaction
+   */
+  async receiveReturn(
+    returnId: string,
+    currentVersion: number,
+    actor: ReturnActor,
+    lines: ReturnReceiptLine[] = [],
+    note?: string
+  ): Promise<ReturnRequest> {
+    return this.applyStep(returnId, ReturnStatus.RECEIVED, currentVersion, actor, note, current => {
+      const items = current.items.map(item => ({
+        ...item,
+        restocked: lines.find(line => lineKey(line) === lineKey(item))?.restock ?? true
+      }));
+
+      return {
+        changes: { items },
+        statements: this.inventory.restockStatements(
+          items.filter(item => item.restocked),
+          `Return ${current.rmaNumber}`,
+          actor.id,
+          { returnId, status: ReturnStatus.RECEIVED, version: currentVersion + 1 }
+        )
+      };
+    });
+  }
+
+  /**
+   * Refund the returned value against the order's original payment. The refund is
+   * recorded PENDING, sent to the provider and settled from its answer; only a
+   * successful refund moves the return to REFUNDED, together with the payment
+   * status, a credit note and (once every unit is refunded) the order status.
+   */
+  async refundReturn(returnId: string, currentVersion: number, actor: ReturnActor, note?: string): Promise<ReturnRequest> {
+    try {
+      const current = await this.getReturnById(returnId);
+      if (!current) {
+        throw new Error('Return not found');
+      }
+
+      if (current.status !== ReturnStatus.RECEIVED) {
+        throw new InvalidReturnTransitionError(current.status, ReturnStatus.REFUNDED, RETURN_TRANSITIONS[current.status]);
+      }
+
+      if (current.version !== currentVersion) {
+        throw new Error('Return was modified by another process. Please refresh and try again.');
+      }
+
+      // Failed refunds do not count; this return's own pending refund is reused below
+      const paymentResult = await this.db`
+        SELECT 
+          p.payment_id, p.amount, p.transaction_id,
+          COALESCE(SUM(r.amount) FILTER (WHERE r.status <> 'FAILED' AND r.return_id IS DISTINCT FROM ${returnId}::integer), 0) AS refunded
+        FROM payments p
+        LEFT JOIN payment_refunds r ON r.payment_id = p.payment_id
+        WHERE p.order_id = ${current.order_id}::text AND p.status = ANY(${REFUNDABLE_PAYMENT_STATUSES})
+        GROUP BY p.payment_id, p.amount, p.transaction_id, p.created_at
+        ORDER BY p.created_at DESC
+        LIMIT 1
+      `;
+
+      if (paymentResult.length === 0) {
+        throw new Error('No settled payment to refund against');
+      }
+
+      const payment = paymentResult[0]!;
+
+      // Paid orders normally have their invoice already; issue it now if the webhook could not
+      const invoice = await this.invoices.issueInvoice(current.order_id);
+      if (!invoice) {
+        throw new Error('No settled payment to refund against');
+      }
+
+      const refund = await this.pendingRefund(current, currentVersion, payment);
+
+      // The refund id doubles as the provider's idempotency key, so a retry never pays out twice
+      const outcome = await paymentProviderService.refund({
+        refundId: refund.refundId,
+        paymentId: payment.payment_id,
+        ...(payment.transaction_id && { transactionId: payment.transaction_id }),
+        amount: refund.amount
+      });
+
+      if (outcome.status === 'PENDING') {
+        throw new RefundPendingError(refund.refundId);
+      }
+
+      if (outcome.status === 'FAILED') {
+        await this.db`
+          UPDATE payment_refunds 
+          SET status = 'FAILED', failure_reason = ${outcome.reason}, updated_at = NOW()
+          WHERE refund_id = ${refund.refundId} AND status = 'PENDING'
+        `;
+        throw new RefundFailedError(outcome.reason);
+      }
+
+      // Is this the last outstanding unit of the order?
+      const order = (await this.orders.getOrderById(current.order_id))!;
+      const siblings = await this.getReturnsForOrder(current.order_id);
+      const refundedUnits = siblings
+        .filter(entry => entry.status === ReturnStatus.REFUNDED || entry.id === current.id)
+        .reduce((sum, entry) => sum + entry.items.reduce((units, item) => units + item.quantity, 0), 0);
+      const orderedUnits = order.items.reduce((sum, item) => sum + item.quantity, 0);
+      const fullyReturned = refundedUnits >= orderedUnits;
+
+      const guard = { returnId, status: ReturnStatus.REFUNDED, version: currentVersion + 1 };
+
+      return await this.applyStep(returnId, ReturnStatus.REFUNDED, currentVersion, actor, note, () => ({
+        changes: { refundReference: refund.refundId },
+        statements: [
+          this.db`
+            UPDATE payment_refunds 
+            SET status = 'SUCCESS', provider_reference = ${outcome.reference ?? null}, updated_at = NOW()
+            WHERE refund_id = ${refund.refundId} 
+              AND status = 'PENDING'
+              AND EXISTS (SELECT 1 FROM returns WHERE id = ${returnId} AND status = ${guard.status} AND version = ${guard.version})
+          `,
+          // Shipping is not refunded, so returning every unit can still leave the payment partly refunded
+          this.db`
+            UPDATE payments p
+            SET
+              status = CASE
+                WHEN (SELECT SUM(amount) FROM payment_refunds WHERE payment_id = p.payment_id AND status = 'SUCCESS') >= p.amount
+                THEN 'REFUNDED' ELSE 'PARTIALLY_REFUNDED'
+              END,
+              updated_at = NOW()
+            WHERE p.payment_id = ${payment.payment_id}
+              AND EXISTS (SELECT 1 FROM returns WHERE id = ${returnId} AND status = ${guard.status} AND version = ${guard.version})
+          `,
+          this.invoices.creditNoteStatement(
+            { order, invoice, returnRequest: current, refundId: refund.refundId, paymentId: payment.payment_id, amount: refund.amount },
+            guard
+          ),
+          ...(fullyReturned && order.status === OrderStatus.DELIVERED
+            ? [this.orders.returnStatusStatement(order, OrderStatus.REFUNDED, {
+                actor: { type: actor.type, id: actor.id },
+                reason: `All items returned (${current.rmaNumber})`
+              }, guard)]
+            : [])
+        ]
+      }));
+    } catch (error) {
+      console.error('Error refunding return:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * The return's refund still waiting for the provider, or a new PENDING one for
+   * whatever of the payment is left to refund
+   */
+  private async pendingRefund(
+    current: ReturnRequest,
+    currentVersion: number,
+    payment: Record<string, any>
+  ): Promise<{ refundId: string; amount: Money }> {
+    const existing = await this.db`
+      SELECT refund_id, amount FROM payment_refunds 
+      WHERE return_id = ${current.id} AND status = 'PENDING'
+    `;
+
+    if (existing.length > 0) {
+      return { refundId: existing[0]!.refund_id, amount: Money.fromDb(existing[0]!.amount, current.currency) };
+    }
+
+    const refundable = Money.subtract(
+      Money.fromDb(payment.amount, current.currency),
+      Money.fromDb(payment.refunded, current.currency)
+    );
+    const amount = Money.min(current.refundAmount, refundable);
+    if (amount.amount <= 0) {
+      throw new Error('Payment has already been fully refunded');
+    }
+
+    // The unique index on active refunds per return stops a concurrent second refund
+    const refundId = `rf_${crypto.randomBytes(16).toString('hex')}`;
+    const inserted = await this.db`
+      INSERT INTO payment_refunds (refund_id, payment_id, order_id, return_id, amount, status, created_at)
+      SELECT ${refundId}, ${payment.payment_id}, ${current.order_id}, ${current.id}, ${amount.amount}, 'PENDING', NOW()
+      WHERE EXISTS (
+        SELECT 1 FROM returns WHERE id = ${current.id} AND status = ${ReturnStatus.RECEIVED} AND version = ${currentVersion}
+      )
+      ON CONFLICT DO NOTHING
+      RETURNING refund_id
+    `;
+
+    if (inserted.length === 0) {
+      throw new Error('Return was modified by another process. Please refresh and try again.');
+    }
+
+    return { refundId, amount };
+  }
+
+  /**
+   * Move a return one step, guarded by status and version, logging the step and
+   * running any extra statements (restock, refund) in the same transaction
+   */
+  private async applyStep(
+    returnId: string,
+    to: ReturnStatus,
+    currentVersion: number,
+    actor: ReturnActor,
+    note?: string,
+    extra?: (current: ReturnRequest) => { changes?: ReturnChanges; statements?: any[] }
+  ): Promise<ReturnRequest> {
+    try {
+      const current = await this.getReturnById(returnId);
+      if (!current) {
+        throw new Error('Return not found');
+      }
+
+      if (!RETURN_TRANSITIONS[current.status].includes(to)) {
+        throw new InvalidReturnTransitionError(current.status, to, RETURN_TRANSITIONS[current.status]);
+      }
+
+      if (current.version !== currentVersion) {
+        throw new Error('Return was modified by another process. Please refresh and try again.');
+      }
+
+      const { changes = {}, statements = [] } = extra?.(current) ?? {};
+
+      const [result] = await this.db.transaction([
+        this.db`
+          WITH updated AS (
+            UPDATE returns
+            SET
+              status = ${to},
+              version = version + 1,
+              updated_at = NOW(),
+              items = COALESCE(${changes.items ? JSON.stringify(toStoredItems(changes.items)) : null}::jsonb, items),
+              refund_reference = COALESCE(${changes.refundReference ?? null}, refund_reference),
+              approved_at = CASE WHEN ${to}::text = ${ReturnStatus.APPROVED} THEN NOW() ELSE approved_at END,
+              received_at = CASE WHEN ${to}::text = ${ReturnStatus.RECEIVED} THEN NOW() ELSE received_at END,
+              refunded_at = CASE WHEN ${to}::text = ${ReturnStatus.REFUNDED} THEN NOW() ELSE refunded_at END
+            WHERE id = ${returnId} AND status = ${current.status} AND version = ${currentVersion}
+            RETURNING *
+          ), event AS (
+            INSERT INTO return_events (return_id, from_status, to_status, actor_type, actor_id, note, created_at)
+            SELECT id, ${current.status}, status, ${actor.type}, ${actor.id}, ${note ?? null}, NOW() FROM updated
+          )
+          SELECT * FROM updated
+        `,
+        ...statements
+      ]);
+
+      if (result!.length === 0) {
+        throw new Error('Return was modified by another process. Please refresh and try again.');
+      }
+
+      this.invalidateOrderCache(current.order_id);
+
+      return (await this.getReturnById(returnId))!;
+    } catch (error) {
+      console.error('Error updating return:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Match requested lines to the order, snapshot prices and check quantities
+   * against what earlier (non-rejected) returns already claim
+   */
+  private resolveItems(order: Order, existing: ReturnRequest[], requested: CreateReturnInput['items']): ReturnItem[] {
+    const claimed = new Map<string, number>();
+    for (const entry of existing.filter(entry => entry.status !== ReturnStatus.REJECTED)) {
+      for (const item of entry.items) {
+        claimed.set(lineKey(item), (claimed.get(lineKey(item)) ?? 0) + item.quantity);
+      }
+    }
+
+    const wanted = new Map<string, number>();
+    for (const item of requested) {
+      wanted.set(lineKey(item), (wanted.get(lineKey(item)) ?? 0) + item.quantity);
+    }
+
+    const problems: string[] = [];
+    const items: ReturnItem[] = [];
+
+    for (const [key, quantity] of wanted) {
+      const lines = order.items.filter(item => lineKey(item) === key);
+      if (lines.length === 0) {
+        problems.push(`${key.replace(/:$/, '')}: not on this order`);
+        continue;
+      }
+
+      const returnable = lines.reduce((sum, line) => sum + line.quantity, 0) - (claimed.get(key) ?? 0);
+      if (quantity > returnable) {
+        problems.push(`${key.replace(/:$/, '')}: requested ${quantity}, ${Math.max(returnable, 0)} returnable`);
+        continue;
+      }
+
+      items.push({
+        sku: lines[0]!.sku,
+        ...(lines[0]!.variant && { variant: lines[0]!.variant }),
+        quantity,
+        unitPrice: lines[0]!.price
+      });
+    }
+
+    if (problems.length > 0) {
+      throw new ReturnItemsError(problems);
+    }
+
+    return items;
+  }
+
+  /**
+   * Value of returned lines after the order's discount and tax, excluding shipping
+   */
+  private refundValue(order: Order, items: ReturnItem[]): Money {
+    const linesValue = Money.sum(items.map(item => Money.multiply(item.unitPrice, item.quantity)), order.currency);
+    const subtotal = order.subtotal ??
+      Money.sum(order.items.map(item => Money.multiply(item.price, item.quantity)), order.currency);
+    if (subtotal.amount <= 0) return Money.zero(order.currency);
+
+    const goodsTotal = Money.subtract(order.total_amount, order.shippingAmount ?? Money.zero(order.currency));
+    return Money.prorate(linesValue, goodsTotal, subtotal);
+  }
+
+  private invalidateOrderCache(orderId: string) {
+    // Route-level cache entries are keyed per viewer: order:<id>:<admin|userId>
+    cacheService.deleteByPrefix(`order:${orderId}:`);
+  }
+
+  private mapRowToReturn(row: any, eventRows: any[]): ReturnRequest {
+    const items: StoredReturnItem[] = typeof row.items === 'string' ? JSON.parse(row.items) : row.items;
+
+    return {
+      id: String(row.id),
+      rmaNumber: row.rma_number,
+      order_id: String(row.order_id),
+      user_id: String(row.user_id),
+      status: row.status,
+      reason: row.reason,
+      items: items.map(item => ({ ...item, unitPrice: Money.fromDb(item.unitPrice, row.currency) })),
+      currency: row.currency,
+      refundAmount: Money.fromDb(row.refund_amount, row.currency),
+      ...(row.refund_reference && { refundReference: row.refund_reference }),
+      version: row.version,
+      events: eventRows.map(event => this.mapRowToEvent(event)),
+      created_at: new Date(row.created_at),
+      updated_at: new Date(row.updated_at),
+      ...(row.approved_at && { approvedAt: new Date(row.approved_at) }),
+      ...(row.received_at && { receivedAt: new Date(row.received_at) }),
+      ...(row.refunded_at && { refundedAt: new Date(row.refunded_at) })
+    };
+  }
+
+  private mapRowToEvent(row: any): ReturnEvent {
+    return {
+      id: String(row.id),
+      fromStatus: row.from_status ?? null,
+      toStatus: row.to_status,
+      actor: { type: row.actor_type, id: row.actor_id },
+      ...(row.note && { note: row.note }),
+      created_at: new Date(row.created_at)
+    };
+  }
+}
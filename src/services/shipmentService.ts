@@ -0,0 +1,449 @@
+import { sql } from '../config/database.ts';
+import { OrderStatus, type Order } from '../models/Order.js';
+import {
+  DISPATCHED_SHIPMENT_STATUSES,
+  ShipmentStatus,
+  type CarrierTrackingUpdate,
+  type CreateShipmentInput,
+  type FulfilmentState,
+  type LineFulfilment,
+  type OrderFulfilment,
+  type OutstandingOrder,
+  type Shipment,
+  type ShipmentItem,
+  type TrackingEvent
+} from '../models/Shipment.js';
+import { OrderService } from './orderService.js';
+import { cacheService } from './cacheService.js';
+
+// Order statuses that shipments can be created for
+const SHIPPABLE_STATUSES: OrderStatus[] = [OrderStatus.PROCESSING, OrderStatus.PARTIALLY_SHIPPED];
+
+// Order status each fulfilment state maps to
+const FULFILMENT_ORDER_STATUS: Record<FulfilmentState, OrderStatus | null> = {
+  UNFULFILLED: null,
+  PARTIALLY_SHIPPED: OrderStatus.PARTIALLY_SHIPPED,
+  SHIPPED: OrderStatus.SHIPPED,
+  DELIVERED: OrderStatus.DELIVERED
+};
+
+// Forward path the carrier webhook may walk an order along
+const FULFILMENT_PATH: OrderStatus[] = [
+  OrderStatus.PROCESSING,
+  OrderStatus.PARTIALLY_SHIPPED,
+  OrderStatus.SHIPPED,
+  OrderStatus.DELIVERED
+];
+
+// Raised when shipment items do not fit what is left to ship on the order
+export class ShipmentItemsError extends Error {
+  override name = 'ShipmentItemsError';
+
+  constructor(public readonly problems: string[]) {
+    super('Shipment items do not match the unshipped items on the order');
+  }
+}
+
+// Result of recording a carrier tracking event
+export interface TrackingUpdateResult {
+  shipment: Shipment;
+  duplicate: boolean;
+  order: Order | null;
+}
+
+const lineKey = (item: { sku: string; variant?: string }) => `${item.sku}:${item.variant ?? ''}`;
+
+export class ShipmentService {
+  private orders: OrderService;
+
+  constructor(private db: typeof sql) {
+    this.orders = new OrderService(db);
+  }
+
+  /**
+   * Attach a shipment to an order. Items default to everything not yet shipped.
+   */
+  async createShipment(orderId: string, input: CreateShipmentInput, currentVersion?: number): Promise<Shipment> {
+    try {
+      const order = await this.orders.getOrderById(orderId);
+      if (!order) {
+        throw new Error('Order not found');
+      }
+
+      if (!SHIPPABLE_STATUSES.includes(order.status)) {
+        throw new Error(`Shipments can only be created for orders in ${SHIPPABLE_STATUSES.join(' or ')}`);
+      }
+
+      if (currentVersion && order.version !== currentVersion) {
+        throw new Error('Order was modified by another process. Please refresh and try again.');
+      }
+
+      const remaining = this.unallocatedItems(await this.computeFulfilment(order));
+      const items = input.items ?? remaining;
+      const problems = this.checkItems(items, remaining);
+
+      if (items.length === 0) {
+        problems.push('Nothing left to ship on this order');
+      }
+
+      if (problems.length > 0) {
+        throw new ShipmentItemsError(problems);
+      }
+
+      // Bump the order version so two admins cannot ship the same remaining items twice
+      const result = await this.db`
+        WITH touched AS (
+          UPDATE orders
+          SET tracking_number = ${input.trackingNumber}, version = version + 1, updated_at = NOW()
+          WHERE id = ${orderId} AND version = ${order.version} AND status = ${order.status}
+          RETURNING id
+        )
+        INSERT INTO shipments (order_id, carrier, tracking_number, status, items, created_at, updated_at)
+        SELECT id, ${input.carrier}, ${input.trackingNumber}, ${ShipmentStatus.LABEL_CREATED}, ${JSON.stringify(items)}::jsonb, NOW(), NOW()
+        FROM touched
+        RETURNING *
+      `;
+
+      if (result.length === 0) {
+        throw new Error('Order was modified by another process. Please refresh and try again.');
+      }
+
+      this.invalidateOrderCache(orderId);
+
+      return this.mapRowToShipment(result[0], []);
+    } catch (error: any) {
+      console.error('Error creating shipment:', error);
+
+      if (error.code === '23505') {
+        throw new Error('Tracking number is already in use for this carrier');
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Shipments of an order with their tracking timelines, oldest first
+   */
+  async getShipmentsForOrder(orderId: string): Promise<Shipment[]> {
+    try {
+      const [shipmentRows, eventRows] = await this.db.transaction([
+        this.db`SELECT * FROM shipments WHERE order_id = ${orderId} ORDER BY created_at, id`,
+        this.db`
+          SELECT e.* FROM shipment_events e
+          JOIN shipments s ON s.id = e.shipment_id
+          WHERE s.order_id = ${orderId}
+          ORDER BY e.occurred_at, e.id
+        `
+      ]);
+
+      return shipmentRows!.map(row => this.mapRowToShipment(
+        row,
+        eventRows!.filter(event => String(event.shipment_id) === String(row.id))
+      ));
+    } catch (error) {
+      console.error('Error getting shipments:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Per-line fulfilment of an order (owner check is the caller's job)
+   */
+  async getFulfilment(orderId: string): Promise<OrderFulfilment | null> {
+    try {
+      const order = await this.orders.getOrderById(orderId);
+      return order ? await this.computeFulfilment(order) : null;
+    } catch (error) {
+      console.error('Error getting fulfilment:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Paid orders that still have units to ship, oldest first, with the outstanding lines
+   */
+  async getOutstandingItems(limit: number, offset: number): Promise<{ orders: OutstandingOrder[]; total: number }> {
+    try {
+      const [totalResult, rows] = await this.db.transaction([
+        this.db`
+          SELECT COUNT(*) AS count FROM orders
+          WHERE status = ANY(${SHIPPABLE_STATUSES})
+        `,
+        // Units per line minus units in shipments that were ever dispatched, aggregated in SQL
+        this.db`
+          WITH page AS (
+            SELECT id, order_number, status, created_at, items FROM orders
+            WHERE status = ANY(${SHIPPABLE_STATUSES})
+            ORDER BY created_at, id
+            LIMIT ${limit} OFFSET ${offset}
+          ),
+          ordered AS (
+            SELECT p.id AS order_id, item->>'sku' AS sku, COALESCE(item->>'variant', '') AS variant,
+                   SUM((item->>'quantity')::int) AS quantity
+            FROM page p CROSS JOIN LATERAL jsonb_array_elements(p.items) AS item
+            GROUP BY 1, 2, 3
+          ),
+          shipped AS (
+            SELECT s.order_id, item->>'sku' AS sku, COALESCE(item->>'variant', '') AS variant,
+                   SUM((item->>'quantity')::int) AS quantity
+            FROM shipments s CROSS JOIN LATERAL jsonb_array_elements(s.items) AS item
+            WHERE s.order_id IN (SELECT id FROM page) AND s.shipped_at IS NOT NULL
+            GROUP BY 1, 2, 3
+          )
+          SELECT p.id, p.order_number, p.status, p.created_at,
+                 o.sku, o.variant, o.quantity AS ordered, COALESCE(sh.quantity, 0) AS shipped
+          FROM page p
+          JOIN ordered o ON o.order_id = p.id
+          LEFT JOIN shipped sh ON sh.order_id = o.order_id AND sh.sku = o.sku AND sh.variant = o.variant
+          WHERE o.quantity > COALESCE(sh.quantity, 0)
+          ORDER BY p.created_at, p.id, o.sku, o.variant
+        `
+      ]);
+
+      const orders = new Map<string, OutstandingOrder>();
+      for (const row of rows!) {
+        const id = String(row.id);
+        if (!orders.has(id)) {
+          orders.set(id, {
+            order_id: id,
+            orderNumber: row.order_number ?? null,
+            status: row.status,
+            created_at: new Date(row.created_at),
+            lines: []
+          });
+        }
+
+        const ordered = Number(row.ordered);
+        const shipped = Number(row.shipped);
+        orders.get(id)!.lines.push({
+          sku: row.sku,
+          ...(row.variant && { variant: row.variant }),
+          ordered,
+          shipped,
+          outstanding: ordered - shipped
+        });
+      }
+
+      return { orders: [...orders.values()], total: parseInt(totalResult![0]!.count) };
+    } catch (error) {
+      console.error('Error getting outstanding items:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record a carrier tracking event and move the order along to the state its
+   * line fulfilment implies (PARTIALLY_SHIPPED, SHIPPED, DELIVERED).
+   * Replays of the same carrier event are recorded once.
+   */
+  async recordTrackingUpdate(update: CarrierTrackingUpdate): Promise<TrackingUpdateResult> {
+    try {
+      const shipmentResult = await this.db`
+        SELECT * FROM shipments WHERE carrier = ${update.carrier} AND tracking_number = ${update.trackingNumber}
+      `;
+
+      if (shipmentResult.length === 0) {
+        throw new Error('Shipment not found');
+      }
+
+      const shipmentId = shipmentResult[0]!.id;
+
+      // The shipment takes the status of its latest event, so late deliveries of old events cannot roll it back.
+      // shipped_at / delivered_at keep the first dispatch and delivery for good, whatever the latest status.
+      const [inserted] = await this.db.transaction([
+        this.db`
+          INSERT INTO shipment_events (shipment_id, event_id, status, description, location, occurred_at, created_at)
+          VALUES (
+            ${shipmentId}, ${update.eventId}, ${update.status}, ${update.description ?? null},
+            ${update.location ?? null}, ${update.occurredAt}, NOW()
+          )
+          ON CONFLICT (shipment_id, event_id) DO NOTHING
+          RETURNING id
+        `,
+        this.db`
+          UPDATE shipments s
+          SET
+            status = latest.status,
+            shipped_at = COALESCE(s.shipped_at, (
+              SELECT MIN(occurred_at) FROM shipment_events
+              WHERE shipment_id = s.id AND status = ANY(${DISPATCHED_SHIPMENT_STATUSES})
+            )),
+            delivered_at = COALESCE(s.delivered_at, (
+              SELECT MIN(occurred_at) FROM shipment_events
+              WHERE shipment_id = s.id AND status = ${ShipmentStatus.DELIVERED}
+            )),
+            updated_at = NOW()
+          FROM (
+            SELECT status FROM shipment_events
+            WHERE shipment_id = ${shipmentId}
+            ORDER BY occurred_at DESC, id DESC
+            LIMIT 1
+          ) latest
+          WHERE s.id = ${shipmentId}
+        `
+      ]);
+
+      const orderId = String(shipmentResult[0]!.order_id);
+      this.invalidateOrderCache(orderId);
+
+      // Sync even on a duplicate: a previous attempt may have failed after recording the event
+      const order = await this.syncOrderStatus(orderId, update);
+      const shipments = await this.getShipmentsForOrder(orderId);
+
+      return {
+        shipment: shipments.find(shipment => shipment.id === String(shipmentId))!,
+        duplicate: inserted!.length === 0,
+        order
+      };
+    } catch (error) {
+      console.error('Error recording tracking update:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Walk the order forward to the state its line fulfilment implies; returns the order if it moved
+   */
+  private async syncOrderStatus(orderId: string, update: CarrierTrackingUpdate): Promise<Order | null> {
+    let order = await this.orders.getOrderById(orderId);
+    if (!order) return null;
+
+    const target = FULFILMENT_ORDER_STATUS[(await this.computeFulfilment(order)).state];
+    if (!target || !FULFILMENT_PATH.includes(order.status)) return null;
+
+    const context = {
+      actor: { type: 'carrier-webhook' as const, id: update.carrier },
+      reason: `${update.trackingNumber}: ${update.status}`
+    };
+
+    // Step through each intermediate state so every move is a valid, audited transition
+    let moved: Order | null = null;
+    for (const next of FULFILMENT_PATH.slice(FULFILMENT_PATH.indexOf(order.status) + 1, FULFILMENT_PATH.indexOf(target) + 1)) {
+      // Fully shipped orders skip PARTIALLY_SHIPPED
+      if (next === OrderStatus.PARTIALLY_SHIPPED && target !== OrderStatus.PARTIALLY_SHIPPED) continue;
+      order = moved = await this.orders.updateOrderStatus(orderId, next, order.version, context);
+    }
+
+    return moved;
+  }
+
+  /**
+   * Line-by-line ordered / allocated / shipped / delivered units and the overall state
+   */
+  buildFulfilment(order: Order, shipments: Shipment[]): OrderFulfilment {
+    const lines = new Map<string, LineFulfilment>();
+
+    for (const item of order.items) {
+      const key = lineKey(item);
+      const line = lines.get(key);
+      if (line) {
+        line.ordered += item.quantity;
+        line.outstanding += item.quantity;
+      } else {
+        lines.set(key, {
+          sku: item.sku,
+          ...(item.variant && { variant: item.variant }),
+          ...(item.productName && { productName: item.productName }),
+          ordered: item.quantity,
+          allocated: 0,
+          shipped: 0,
+          delivered: 0,
+          outstanding: item.quantity
+        });
+      }
+    }
+
+    for (const shipment of shipments) {
+      // Once dispatched a parcel stays shipped, even if it later reports an EXCEPTION
+      const dispatched = shipment.shippedAt !== undefined;
+      const delivered = shipment.deliveredAt !== undefined;
+
+      for (const item of shipment.items) {
+        const line = lines.get(lineKey(item));
+        if (!line) continue;
+
+        line.allocated += item.quantity;
+        if (dispatched) {
+          line.shipped += item.quantity;
+          line.outstanding -= item.quantity;
+        }
+        if (delivered) line.delivered += item.quantity;
+      }
+    }
+
+    const all = [...lines.values()];
+    const state: FulfilmentState =
+      all.every(line => line.delivered >= line.ordered) && all.length > 0 ? 'DELIVERED'
+      : all.every(line => line.outstanding <= 0) && all.length > 0 ? 'SHIPPED'
+      : all.some(line => line.shipped > 0) ? 'PARTIALLY_SHIPPED'
+      : 'UNFULFILLED';
+
+    return { order_id: String(order.id), state, lines: all };
+  }
+
+  private async computeFulfilment(order: Order): Promise<OrderFulfilment> {
+    return this.buildFulfilment(order, await this.getShipmentsForOrder(order.id!));
+  }
+
+  // What new shipments can still carry: ordered minus allocated to any shipment
+  private unallocatedItems(fulfilment: OrderFulfilment): ShipmentItem[] {
+    return fulfilment.lines
+      .filter(line => line.ordered > line.allocated)
+      .map(line => ({
+        sku: line.sku,
+        ...(line.variant && { variant: line.variant }),
+        quantity: line.ordered - line.allocated
+      }));
+  }
+
+  private checkItems(items: ShipmentItem[], remaining: ShipmentItem[]): string[] {
+    const requested = new Map<string, number>();
+    for (const item of items) {
+      requested.set(lineKey(item), (requested.get(lineKey(item)) ?? 0) + item.quantity);
+    }
+
+    const problems: string[] = [];
+    for (const [key, quantity] of requested) {
+      const left = remaining.find(item => lineKey(item) === key)?.quantity ?? 0;
+      if (quantity > left) {
+        problems.push(`${key.replace(/:$/, '')}: requested ${quantity}, ${left} left to ship`);
+      }
+    }
+
+    return problems;
+  }
+
+  private invalidateOrderCache(orderId: string) {
+    // Route-level cache entries are keyed per viewer: order:<id>:<admin|userId>
+    cacheService.deleteByPrefix(`order:${orderId}:`);
+  }
+
+  private mapRowToShipment(row: any, eventRows: any[]): Shipment {
+    return {
+      id: String(row.id),
+      order_id: String(row.order_id),
+      carrier: row.carrier,
+      trackingNumber: row.tracking_number,
+      status: row.status,
+      items: typeof row.items === 'string' ? JSON.parse(row.items) : row.items,
+      events: eventRows.map(event => this.mapRowToEvent(event)),
+      ...(row.shipped_at && { shippedAt: new Date(row.shipped_at) }),
+      ...(row.delivered_at && { deliveredAt: new Date(row.delivered_at) }),
+      created_at: new Date(row.created_at),
+      updated_at: new Date(row.updated_at)
+    };
+  }
+
+  private mapRowToEvent(row: any): TrackingEvent {
+    return {
+      id: String(row.id),
+      eventId: row.event_id,
+      status: row.status,
+      ...(row.description && { description: row.description }),
+      ...(row.location && { location: row.location }),
+      occurredAt: new Date(row.occurred_at),
+      created_at: new Date(row.created_at)
+    };
+  }
+}